@@ -0,0 +1,60 @@
+/**
+ * Admin routes, for when an owner changes their social preview and can't
+ * wait out the cache: POST /admin/purge drops paths from the cache layers,
+ * POST /admin/warm re-resolves them now. Both also retire the paths'
+ * transformed images. Both need
+ * "Authorization: Bearer <ADMIN_TOKEN>"; without that secret they don't exist.
+ */
+
+import { MAX_BATCH_PATHS } from "./batch";
+import type { Env } from "./env";
+
+export type AdminAuth = "ok" | "disabled" | "unauthorized";
+
+export interface PurgeRequest {
+  paths: string[];
+  prefix: string | null; // everything at or below this path
+}
+
+export type ParsedPurge = { status: "ok"; purge: PurgeRequest } | { status: "invalid"; message: string };
+
+// A path to warm on the cron trigger; host null is GitHub
+export interface WarmTarget {
+  host: string | null;
+  path: string;
+}
+
+const sha256 = async (value: string): Promise<ArrayBuffer> =>
+  crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+
+// Compared as hashes so the comparison is constant-time whatever the lengths
+export const checkAdminAuth = async (request: Request, env: Env): Promise<AdminAuth> => {
+  if (!env.ADMIN_TOKEN) return "disabled";
+  const token = request.headers.get("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1] ?? "";
+  const [given, expected] = await Promise.all([sha256(token), sha256(env.ADMIN_TOKEN)]);
+  return crypto.subtle.timingSafeEqual(given, expected) ? "ok" : "unauthorized";
+};
+
+// {"paths": ["owner/repo", ...]}, {"prefix": "owner"}, or both
+export const parsePurgeBody = (body: unknown): ParsedPurge => {
+  const { paths = [], prefix = null } = (body && typeof body === "object" ? body : {}) as Record<string, unknown>;
+  if (!Array.isArray(paths) || !paths.every((p) => typeof p === "string") || (prefix !== null && typeof prefix !== "string")) {
+    return { status: "invalid", message: 'Invalid body. Send {"paths": [...]} and/or {"prefix": "owner"}' };
+  }
+  if (paths.length === 0 && !prefix) return { status: "invalid", message: "No paths or prefix given" };
+  if (paths.length > MAX_BATCH_PATHS) {
+    return { status: "invalid", message: `Too many paths. Send at most ${MAX_BATCH_PATHS}` };
+  }
+  return { status: "ok", purge: { paths, prefix: prefix || null } };
+};
+
+// WARM_PATHS: "owner/repo,codeberg:owner/repo,..."; a host prefix picks the forge
+export const parseWarmPaths = (env: Env): WarmTarget[] =>
+  (env.WARM_PATHS ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const colon = entry.indexOf(":");
+      return colon < 0 ? { host: null, path: entry } : { host: entry.slice(0, colon), path: entry.slice(colon + 1) };
+    });
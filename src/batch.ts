@@ -0,0 +1,57 @@
+/**
+ * Batch lookups: many owner or owner/repo paths in one request.
+ * Paths come from a POST body or a comma-separated ?paths= list and resolve
+ * a few at a time, so a 200-repo page doesn't open 200 GitHub fetches at once.
+ */
+
+export const MAX_BATCH_PATHS = 200;
+export const BATCH_CONCURRENCY = 6; // Workers allow six simultaneous outbound connections per request
+
+export type BatchEntry = { url: string } | { error: string };
+
+export type BatchPaths = { status: "ok"; paths: string[] } | { status: "invalid"; message: string };
+
+const checkPaths = (paths: string[]): BatchPaths => {
+  if (paths.length === 0) return { status: "invalid", message: "No paths given" };
+  if (paths.length > MAX_BATCH_PATHS) {
+    return { status: "invalid", message: `Too many paths. Send at most ${MAX_BATCH_PATHS}` };
+  }
+  return { status: "ok", paths };
+};
+
+// GET /batch?paths=owner,owner/repo
+export const parseBatchQuery = (value: string): BatchPaths =>
+  checkPaths(value.split(",").map((p) => p.trim()).filter(Boolean));
+
+// POST /batch with ["owner/repo", ...] or {"paths": [...]}
+export const parseBatchBody = (body: unknown): BatchPaths => {
+  const paths = Array.isArray(body) ? body : (body as { paths?: unknown } | null)?.paths;
+  if (!Array.isArray(paths) || !paths.every((p) => typeof p === "string")) {
+    return { status: "invalid", message: 'Invalid body. Send a JSON array of paths or {"paths": [...]}' };
+  }
+  return checkPaths(paths);
+};
+
+// Runs fn over items with at most `limit` calls pending, keeping input order
+export const mapConcurrent = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Keyed by the paths exactly as the caller sent them
+export const runBatch = async <T = BatchEntry>(
+  paths: string[],
+  lookup: (path: string) => Promise<T>,
+): Promise<Record<string, T>> => {
+  const unique = [...new Set(paths)];
+  const entries = await mapConcurrent(unique, BATCH_CONCURRENCY, lookup);
+  return Object.fromEntries(unique.map((path, i) => [path, entries[i]]));
+};
@@ -0,0 +1,257 @@
+/**
+ * Layered og:image lookup cache.
+ * Lookups go isolate memory -> caches.default -> KV (when bound); hits from a
+ * slower layer are copied back into the faster ones. Found entries outlive
+ * their TTL so they can be served stale while revalidating, or when GitHub
+ * is failing.
+ */
+
+import type { Env } from "./env";
+import { isPageMeta, type PageMeta } from "./meta";
+
+export interface CacheEntry {
+  url: string | null; // null = cached 404
+  expires: number;
+  fetched?: number; // when GitHub answered; missing on entries written by older deploys
+  meta?: PageMeta;
+  generation?: number; // part of transform keys; a purge drops the entry, so the next lookup starts a new one
+}
+
+export interface CacheWriteOptions {
+  meta?: PageMeta;
+  generation?: number;
+  ttl?: number; // defaults to CACHE_TTL_MS for found entries, CACHE_404_TTL_MS for misses
+}
+
+export const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
+export const CACHE_404_TTL_MS = 5 * 60 * 1000; // 5 minutes for 404s
+const STALE_WHILE_REVALIDATE_MS = 24 * 60 * 60 * 1000; // serve stale + refresh in background
+const STALE_IF_ERROR_MS = 7 * 24 * 60 * 60 * 1000; // serve stale only when GitHub fails
+
+// fresh: within TTL; stale: refresh in the background; expired: usable only if a refetch fails
+export type Freshness = "fresh" | "stale" | "expired";
+
+// Which layer the returned entry came from
+export type CacheLayer = "memory" | "edge" | "kv";
+
+export interface CacheLookup {
+  entry: CacheEntry;
+  freshness: Freshness;
+  layer: CacheLayer;
+}
+
+// Synthetic origin for Cache API keys; never fetched, only used as a key
+export const CACHE_API_ORIGIN = "https://ghlogo.cache";
+const KV_KEY_PREFIX = "og:";
+const KV_MIN_TTL_SECONDS = 60; // KV rejects expirationTtl below 60s
+
+export const MAX_MEMORY_ENTRIES = 10_000; // least recently used entries are dropped past this
+
+// In-memory cache persists for worker isolate lifetime; kept in least recently used order
+const memoryCache = new Map<string, CacheEntry>();
+
+const isValidEntry = (value: unknown): value is CacheEntry => {
+  if (!value || typeof value !== "object") return false;
+  const entry = value as Record<string, unknown>;
+  return (
+    (typeof entry.url === "string" || entry.url === null) &&
+    typeof entry.expires === "number" &&
+    (entry.fetched === undefined || typeof entry.fetched === "number") &&
+    (entry.meta === undefined || isPageMeta(entry.meta)) &&
+    (entry.generation === undefined || typeof entry.generation === "number")
+  );
+};
+
+export const secondsUntil = (expires: number): number => Math.max(0, Math.ceil((expires - Date.now()) / 1000));
+
+// Negative entries are never served past their TTL
+const retainUntil = (entry: CacheEntry): number => (entry.url ? entry.expires + STALE_IF_ERROR_MS : entry.expires);
+
+const freshnessOf = (entry: CacheEntry): Freshness | null => {
+  const now = Date.now();
+  if (now < entry.expires) return "fresh";
+  if (now >= retainUntil(entry)) return null;
+  return entry.url && now < entry.expires + STALE_WHILE_REVALIDATE_MS ? "stale" : "expired";
+};
+
+const cacheApiKey = (path: string): Request => new Request(`${CACHE_API_ORIGIN}${path}`);
+
+// caches.default is missing outside the Workers runtime, and is a no-op on workers.dev
+export const getDefaultCache = (): Cache | null => (typeof caches === "undefined" ? null : caches.default);
+
+const readCacheApi = async (path: string): Promise<CacheEntry | null> => {
+  const cache = getDefaultCache();
+  if (!cache) return null;
+  try {
+    const response = await cache.match(cacheApiKey(path));
+    if (!response) return null;
+    const value: unknown = await response.json();
+    return isValidEntry(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCacheApi = async (path: string, entry: CacheEntry): Promise<void> => {
+  const cache = getDefaultCache();
+  if (!cache) return;
+  try {
+    await cache.put(
+      cacheApiKey(path),
+      new Response(JSON.stringify(entry), {
+        headers: {
+          "Content-Type": "application/json",
+          "Cache-Control": `max-age=${secondsUntil(retainUntil(entry))}`,
+        },
+      }),
+    );
+  } catch {
+    // Cache API failures only cost us a slower lookup next time
+  }
+};
+
+const readKv = async (env: Env, path: string): Promise<CacheEntry | null> => {
+  if (!env.LOGO_CACHE) return null;
+  try {
+    const value: unknown = await env.LOGO_CACHE.get(KV_KEY_PREFIX + path, "json");
+    return isValidEntry(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeKv = async (env: Env, path: string, entry: CacheEntry): Promise<void> => {
+  if (!env.LOGO_CACHE) return;
+  try {
+    await env.LOGO_CACHE.put(KV_KEY_PREFIX + path, JSON.stringify(entry), {
+      expirationTtl: Math.max(KV_MIN_TTL_SECONDS, secondsUntil(retainUntil(entry))),
+    });
+  } catch {
+    // KV write limits are low; losing a write is fine
+  }
+};
+
+// Re-inserting moves a path to the most recently used end
+const setMemory = (path: string, entry: CacheEntry): void => {
+  memoryCache.delete(path);
+  memoryCache.set(path, entry);
+  if (memoryCache.size > MAX_MEMORY_ENTRIES) memoryCache.delete(memoryCache.keys().next().value!);
+};
+
+const getMemory = (path: string): CacheEntry | null => {
+  const entry = memoryCache.get(path);
+  if (entry && freshnessOf(entry)) {
+    setMemory(path, entry);
+    return entry;
+  }
+  if (entry) {
+    memoryCache.delete(path);
+  }
+  return null;
+};
+
+export const memoryCacheSize = (): number => memoryCache.size;
+
+/**
+ * Returns the first fresh entry across layers, or else the newest
+ * still-retained one so callers can serve it stale.
+ */
+export const getCached = async (
+  path: string,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<CacheLookup | null> => {
+  let best = getMemory(path);
+  if (best && freshnessOf(best) === "fresh") return { entry: best, freshness: "fresh", layer: "memory" };
+  const fromMemory = best;
+  let layer: CacheLayer = "memory";
+
+  const edgeEntry = await readCacheApi(path);
+  if (edgeEntry && freshnessOf(edgeEntry) && (!best || edgeEntry.expires > best.expires)) {
+    best = edgeEntry;
+    layer = "edge";
+  }
+
+  if (!best || freshnessOf(best) !== "fresh") {
+    const kvEntry = await readKv(env, path);
+    if (kvEntry && freshnessOf(kvEntry) && (!best || kvEntry.expires > best.expires)) {
+      best = kvEntry;
+      layer = "kv";
+      ctx.waitUntil(writeCacheApi(path, kvEntry));
+    }
+  }
+
+  if (!best) return null;
+  if (best !== fromMemory) setMemory(path, best);
+  const freshness = freshnessOf(best);
+  return freshness ? { entry: best, freshness, layer } : null;
+};
+
+export const setCache = (
+  path: string,
+  url: string | null,
+  env: Env,
+  ctx: ExecutionContext,
+  { meta, generation, ttl = url ? CACHE_TTL_MS : CACHE_404_TTL_MS }: CacheWriteOptions = {},
+): void => {
+  const now = Date.now();
+  const entry: CacheEntry = { url, expires: now + ttl, fetched: now, meta, generation };
+  setMemory(path, entry);
+  ctx.waitUntil(Promise.all([writeCacheApi(path, entry), writeKv(env, path, entry)]));
+};
+
+const deleteCacheApi = async (path: string): Promise<boolean> => {
+  const cache = getDefaultCache();
+  if (!cache) return false;
+  try {
+    return await cache.delete(cacheApiKey(path));
+  } catch {
+    return false;
+  }
+};
+
+// KV deletes don't say whether the key existed, so check first
+const deleteKv = async (env: Env, path: string): Promise<boolean> => {
+  if (!env.LOGO_CACHE) return false;
+  try {
+    const existed = (await env.LOGO_CACHE.get(KV_KEY_PREFIX + path)) !== null;
+    await env.LOGO_CACHE.delete(KV_KEY_PREFIX + path);
+    return existed;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Drops a path from isolate memory, this location's Cache API and KV.
+ * Other isolates and edge locations keep their copies until they expire.
+ * Returns whether any layer held it.
+ */
+export const deleteCached = async (path: string, env: Env): Promise<boolean> => {
+  const inMemory = memoryCache.delete(path);
+  const [inCacheApi, inKv] = await Promise.all([deleteCacheApi(path), deleteKv(env, path)]);
+  return inMemory || inCacheApi || inKv;
+};
+
+const matchesPrefix = (path: string, prefix: string): boolean => path === prefix || path.startsWith(`${prefix}/`);
+
+// Cached paths under a prefix, from isolate memory and KV; the Cache API can't be listed
+export const listCachedPaths = async (prefix: string, env: Env): Promise<string[]> => {
+  const paths = new Set([...memoryCache.keys()].filter((path) => matchesPrefix(path, prefix)));
+  if (env.LOGO_CACHE) {
+    try {
+      let cursor: string | undefined;
+      do {
+        const page = await env.LOGO_CACHE.list({ prefix: KV_KEY_PREFIX + prefix, cursor });
+        for (const { name } of page.keys) {
+          const path = name.slice(KV_KEY_PREFIX.length);
+          if (matchesPrefix(path, prefix)) paths.add(path);
+        }
+        cursor = page.list_complete ? undefined : page.cursor;
+      } while (cursor);
+    } catch {
+      // A partial listing still purges what it found
+    }
+  }
+  return [...paths];
+};
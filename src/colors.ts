@@ -0,0 +1,140 @@
+/**
+ * Colour extraction for ?format=colors and bg=auto.
+ * The palette splits boxes of opaque pixels at the middle of their widest
+ * channel rather than the median, which would cut through a flat background
+ * covering most of the image. The edge colour averages border pixels
+ * weighted by alpha, so transparent corners don't pull it towards black.
+ * Callers pass a thumbnail: a few thousand pixels is plenty.
+ */
+
+import type { RawImage } from "./image";
+import type { Rgba } from "./pad";
+
+export type EdgeTone = "light" | "dark" | "transparent";
+
+export interface PaletteEntry {
+  color: string; // #rrggbb
+  share: number; // fraction of opaque pixels, 0-1
+}
+
+export interface ImageColors {
+  dominant: string | null; // null when the image is fully transparent
+  palette: PaletteEntry[]; // largest share first
+  edges: { color: string; tone: EdgeTone };
+}
+
+const PALETTE_SIZE = 5;
+const OPAQUE_ALPHA = 128; // pixels below this are ignored by the palette
+const MIN_SPLIT_RANGE = 24; // boxes narrower than this on every channel are one colour with resampling noise
+
+const hex = (n: number): string => n.toString(16).padStart(2, "0");
+
+// #rrggbb, or #rrggbbaa when not opaque; the same forms bg= accepts
+export const formatColor = ([r, g, b, a]: Rgba): string => `#${hex(r)}${hex(g)}${hex(b)}${a === 255 ? "" : hex(a)}`;
+
+// Alpha-weighted average of RGBA pixel runs, such as the lines padding extends
+export const averageColor = (lines: Uint8Array[]): Rgba => {
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let alpha = 0;
+  let count = 0;
+  for (const line of lines) {
+    for (let i = 0; i < line.length; i += 4) {
+      const a = line[i + 3];
+      r += line[i] * a;
+      g += line[i + 1] * a;
+      b += line[i + 2] * a;
+      alpha += a;
+      count++;
+    }
+  }
+  if (!alpha) return [0, 0, 0, 0];
+  return [Math.round(r / alpha), Math.round(g / alpha), Math.round(b / alpha), Math.round(alpha / count)];
+};
+
+// Perceived brightness (Rec. 709 weights on sRGB values)
+const edgeTone = ([r, g, b, a]: Rgba): EdgeTone => {
+  if (a < OPAQUE_ALPHA) return "transparent";
+  return (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255 > 0.5 ? "light" : "dark";
+};
+
+const borderPixels = (image: RawImage): Uint8Array => {
+  const { width, height, data } = image;
+  const out: number[] = [];
+  for (let y = 0; y < height; y++) {
+    const step = y === 0 || y === height - 1 ? 1 : Math.max(1, width - 1);
+    for (let x = 0; x < width; x += step) out.push(...data.subarray((y * width + x) * 4, (y * width + x + 1) * 4));
+  }
+  return new Uint8Array(out);
+};
+
+type Pixel = [number, number, number];
+
+// Splits the box with the widest channel range until there are enough boxes
+const splitBoxes = (pixels: Pixel[], boxes: number): Pixel[][] => {
+  const result = [pixels];
+  while (result.length < boxes) {
+    let best = -1;
+    let bestChannel = 0;
+    let bestRange = MIN_SPLIT_RANGE;
+    let bestMiddle = 0;
+    result.forEach((box, i) => {
+      if (box.length < 2) return;
+      for (let c = 0; c < 3; c++) {
+        let min = 255;
+        let max = 0;
+        for (const p of box) {
+          min = Math.min(min, p[c]);
+          max = Math.max(max, p[c]);
+        }
+        if (max - min >= bestRange) {
+          best = i;
+          bestChannel = c;
+          bestRange = max - min;
+          bestMiddle = (min + max) / 2;
+        }
+      }
+    });
+    if (best < 0) break; // every box is already a single colour
+    const box = result[best];
+    result.splice(
+      best,
+      1,
+      box.filter((p) => p[bestChannel] < bestMiddle),
+      box.filter((p) => p[bestChannel] >= bestMiddle),
+    );
+  }
+  return result;
+};
+
+const boxAverage = (box: Pixel[]): Rgba => {
+  const sum = [0, 0, 0];
+  for (const p of box) for (let c = 0; c < 3; c++) sum[c] += p[c];
+  return [Math.round(sum[0] / box.length), Math.round(sum[1] / box.length), Math.round(sum[2] / box.length), 255];
+};
+
+export const extractColors = (image: RawImage): ImageColors => {
+  const pixels: Pixel[] = [];
+  for (let i = 0; i < image.data.length; i += 4) {
+    if (image.data[i + 3] >= OPAQUE_ALPHA) pixels.push([image.data[i], image.data[i + 1], image.data[i + 2]]);
+  }
+
+  // Boxes that average to the same colour are merged so shares add up
+  const shares = new Map<string, number>();
+  for (const box of splitBoxes(pixels, PALETTE_SIZE)) {
+    if (!box.length) continue;
+    const color = formatColor(boxAverage(box));
+    shares.set(color, (shares.get(color) ?? 0) + box.length / pixels.length);
+  }
+  const palette = [...shares]
+    .map(([color, share]) => ({ color, share: Math.round(share * 1000) / 1000 }))
+    .sort((a, b) => b.share - a.share);
+
+  const edge = averageColor([borderPixels(image)]);
+  return {
+    dominant: palette[0]?.color ?? null,
+    palette,
+    edges: { color: formatColor(edge), tone: edgeTone(edge) },
+  };
+};
@@ -0,0 +1,93 @@
+/**
+ * Format detection and decoding.
+ * Picks a decoder from the file's magic bytes rather than its content-type,
+ * which image hosts do not always get right.
+ */
+
+import { decodeGif, isGif } from "./gif";
+import type { RawImage } from "./image";
+import { decodeJpeg, isJpeg } from "./jpeg";
+import { decodePng, isPng, type PngChunk } from "./png";
+import { decodeWebp, isWebp } from "./webp";
+
+export type ImageFormat = "png" | "jpeg" | "webp" | "gif";
+
+export interface DecodedImage extends RawImage {
+  format: ImageFormat;
+  ancillary: PngChunk[]; // PNG colour chunks worth carrying into a re-encode; empty otherwise
+}
+
+export const sniffFormat = (buf: Uint8Array): ImageFormat | null => {
+  if (isPng(buf)) return "png";
+  if (isJpeg(buf)) return "jpeg";
+  if (isWebp(buf)) return "webp";
+  if (isGif(buf)) return "gif";
+  return null;
+};
+
+export const decodeImage = async (buf: Uint8Array): Promise<DecodedImage | null> => {
+  const format = sniffFormat(buf);
+  if (!format) return null;
+  if (format === "png") {
+    const png = await decodePng(buf);
+    return png && { ...png, format };
+  }
+
+  const image = format === "jpeg" ? decodeJpeg(buf) : format === "webp" ? decodeWebp(buf) : decodeGif(buf);
+  return image && { ...image, format, ancillary: [] };
+};
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+const u16be = (buf: Uint8Array, i: number): number => (buf[i] << 8) | buf[i + 1];
+const u32be = (buf: Uint8Array, i: number): number => ((buf[i] << 24) | (buf[i + 1] << 16) | (buf[i + 2] << 8) | buf[i + 3]) >>> 0;
+const u16le = (buf: Uint8Array, i: number): number => buf[i] | (buf[i + 1] << 8);
+const u24le = (buf: Uint8Array, i: number): number => buf[i] | (buf[i + 1] << 8) | (buf[i + 2] << 16);
+
+// Walks JPEG markers to the first start-of-frame
+const readJpegSize = (buf: Uint8Array): ImageSize | null => {
+  let i = 2;
+  while (i + 9 < buf.length) {
+    if (buf[i] !== 0xff) return null;
+    const marker = buf[i + 1];
+    if (marker === 0xff) {
+      i++; // fill byte
+    } else if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      i += 2; // no length field
+    } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { width: u16be(buf, i + 7), height: u16be(buf, i + 5) };
+    } else {
+      i += 2 + u16be(buf, i + 2);
+    }
+  }
+  return null;
+};
+
+const readWebpSize = (buf: Uint8Array): ImageSize | null => {
+  if (buf.length < 30) return null;
+  const chunk = String.fromCharCode(buf[12], buf[13], buf[14], buf[15]);
+  if (chunk === "VP8X") return { width: u24le(buf, 24) + 1, height: u24le(buf, 27) + 1 };
+  if (chunk === "VP8L" && buf[20] === 0x2f) {
+    const bits = buf[21] | (buf[22] << 8) | (buf[23] << 16) | (buf[24] << 24);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8 " && buf[23] === 0x9d && buf[24] === 0x01 && buf[25] === 0x2a) {
+    return { width: u16le(buf, 26) & 0x3fff, height: u16le(buf, 28) & 0x3fff };
+  }
+  return null;
+};
+
+/**
+ * Reads dimensions from the file header without decoding any pixels.
+ */
+export const readImageSize = (buf: Uint8Array): ImageSize | null => {
+  const format = sniffFormat(buf);
+  if (format === "png") return buf.length >= 24 ? { width: u32be(buf, 16), height: u32be(buf, 20) } : null;
+  if (format === "gif") return buf.length >= 10 ? { width: u16le(buf, 6), height: u16le(buf, 8) } : null;
+  if (format === "jpeg") return readJpegSize(buf);
+  if (format === "webp") return readWebpSize(buf);
+  return null;
+};
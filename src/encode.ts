@@ -0,0 +1,47 @@
+/**
+ * Output encoding for images the worker produces: PNG, or lossless WebP for
+ * clients that ask for it with ?format=webp or list image/webp in Accept.
+ */
+
+import type { RawImage } from "./image";
+import { encodePng, zlibDecompress, type PngChunk } from "./png";
+import { MAX_WEBP_SIZE, encodeWebp } from "./webp";
+
+export type OutputFormat = "png" | "webp";
+
+export const CONTENT_TYPES: Record<OutputFormat, string> = {
+  png: "image/png",
+  webp: "image/webp",
+};
+
+export interface EncodedImage {
+  format: OutputFormat; // may be png even when webp was asked for
+  body: Uint8Array;
+}
+
+// Browsers that decode WebP list it explicitly, so */* and image/* don't count
+export const acceptsWebp = (accept: string | null): boolean =>
+  (accept ?? "").split(",").some((part) => {
+    const [type, ...params] = part.split(";").map((s) => s.trim().toLowerCase());
+    const q = params.find((p) => p.startsWith("q="));
+    return type === "image/webp" && (!q || Number(q.slice(2)) > 0);
+  });
+
+// PNG's iCCP holds a name, a compression byte and the zlib-compressed profile; WebP wants it raw
+const readIccProfile = async (ancillary: PngChunk[]): Promise<Uint8Array | null> => {
+  const iccp = ancillary.find((c) => c.type === "iCCP");
+  if (!iccp) return null;
+  try {
+    return await zlibDecompress(iccp.data.subarray(iccp.data.indexOf(0) + 2));
+  } catch {
+    return null;
+  }
+};
+
+// Images too large for a WebP header fall back to PNG
+export const encodeImage = async (image: RawImage, format: OutputFormat, ancillary: PngChunk[] = []): Promise<EncodedImage> => {
+  if (format === "webp" && image.width <= MAX_WEBP_SIZE && image.height <= MAX_WEBP_SIZE) {
+    return { format, body: encodeWebp(image, await readIccProfile(ancillary)) };
+  }
+  return { format: "png", body: await encodePng(image, ancillary) };
+};
@@ -0,0 +1,30 @@
+/**
+ * Worker bindings. Everything is optional so a fork deployed without any
+ * extra configuration still runs with the isolate memory cache alone.
+ */
+export interface Env {
+  // KV namespace used as the slowest, longest-lived og:image cache layer
+  LOGO_CACHE?: KVNamespace;
+  // R2 bucket for transformed image bytes, shared across colos
+  IMAGE_CACHE?: R2Bucket;
+  // Extra ?host= values for self-hosted forges: "name=gitlab:https://gitlab.example.com,..."
+  SELF_HOSTED_FORGES?: string;
+  // Secret; enables GitHub GraphQL lookups and ?source=logo
+  GITHUB_TOKEN?: string;
+  // GitHub lookup order: "api,scrape" (the default), "scrape,api", "api" or "scrape"
+  GITHUB_LOOKUP?: string;
+  // Extra image hosts ?proxy=1 may stream from, comma-separated; subdomains match
+  PROXY_ALLOWED_HOSTS?: string;
+  // Durable Object namespace sharing rate-limit buckets across isolates
+  RATE_LIMITER?: DurableObjectNamespace;
+  // Requests per minute per client IP (default 0, off); "0" disables
+  RATE_LIMIT?: string;
+  // Forge lookups per minute across all clients (default 600); "0" disables
+  UPSTREAM_RATE_LIMIT?: string;
+  // Secret; enables POST /admin/purge and /admin/warm as a bearer token
+  ADMIN_TOKEN?: string;
+  // Analytics Engine dataset; when bound, every request writes a data point
+  ANALYTICS?: AnalyticsEngineDataset;
+  // Paths the cron trigger keeps warm: "owner/repo,codeberg:owner/repo"
+  WARM_PATHS?: string;
+}
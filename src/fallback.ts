@@ -0,0 +1,96 @@
+/**
+ * Fallbacks for lookups with no image, via ?fallback= and ?prefer=custom.
+ * Entries are tried in order; an avatar only applies to repo paths, where
+ * the owner can still have one. Generated images are built here as raw
+ * pixels so they can go through the same transforms as fetched ones.
+ */
+
+import { createImage, type RawImage } from "./image";
+import { invalidParam, type ParsedParams } from "./params";
+
+export type Fallback = { type: "avatar" } | { type: "identicon" } | { type: "transparent" } | { type: "url"; url: string };
+
+export interface FallbackOptions {
+  chain: Fallback[];
+  preferCustom: boolean; // treat GitHub's generated card as missing and try the owner avatar first
+}
+
+const MAX_FALLBACKS = 4;
+
+const IDENTICON_CELL = 70; // GitHub's identicons are 5x5 cells of 70px with a half-cell margin
+const IDENTICON_GRID = 5;
+const IDENTICON_BACKGROUND = [240, 240, 240, 255];
+
+const parseFallbackEntry = (value: string): Fallback | null => {
+  if (value === "avatar" || value === "identicon" || value === "transparent") return { type: value };
+  return null;
+};
+
+/**
+ * A comma-separated chain such as "avatar,identicon". A default URL must
+ * come last, since it may itself contain commas.
+ */
+export const parseFallbackOptions = (params: URLSearchParams): ParsedParams<FallbackOptions> => {
+  const fallbackParam = params.get("fallback");
+  const preferParam = params.get("prefer");
+  if (preferParam !== null && preferParam !== "custom") return invalidParam("Invalid prefer. Use custom");
+  if (!fallbackParam && !preferParam) return { status: "none" };
+
+  const chain: Fallback[] = [];
+  let rest = fallbackParam ?? "";
+  while (rest) {
+    if (rest.startsWith("https://")) {
+      if (!URL.canParse(rest)) return invalidParam("Invalid fallback URL");
+      chain.push({ type: "url", url: rest });
+      break;
+    }
+    const comma = rest.indexOf(",");
+    const entry = parseFallbackEntry((comma < 0 ? rest : rest.slice(0, comma)).trim());
+    if (!entry) return invalidParam("Invalid fallback. Use avatar, identicon, transparent or an https:// URL");
+    chain.push(entry);
+    rest = comma < 0 ? "" : rest.slice(comma + 1).trim();
+  }
+  if (chain.length > MAX_FALLBACKS) return invalidParam(`Too many fallbacks. Use at most ${MAX_FALLBACKS}`);
+
+  return { status: "ok", options: { chain, preferCustom: preferParam === "custom" } };
+};
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    return Math.round(255 * (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))));
+  };
+  return [channel(0), channel(8), channel(4)];
+};
+
+/**
+ * A GitHub-style identicon: a mirrored 5x5 grid in one colour, both taken
+ * from a hash of the seed so the same path always gets the same image.
+ */
+export const createIdenticon = async (seed: string): Promise<RawImage> => {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(seed)));
+  const hue = ((hash[28] << 8) | hash[29]) % 360;
+  const colour = [...hslToRgb(hue, 0.45 + (hash[30] % 20) / 100, 0.55 + (hash[31] % 10) / 100), 255];
+
+  const margin = IDENTICON_CELL / 2;
+  const size = IDENTICON_GRID * IDENTICON_CELL + 2 * margin;
+  const image = createImage(size, size);
+  for (let i = 0; i < image.data.length; i += 4) image.data.set(IDENTICON_BACKGROUND, i);
+
+  const half = Math.ceil(IDENTICON_GRID / 2);
+  for (let col = 0; col < half; col++) {
+    for (let row = 0; row < IDENTICON_GRID; row++) {
+      if (!(hash[col * IDENTICON_GRID + row] & 1)) continue;
+      for (const x of new Set([col, IDENTICON_GRID - 1 - col])) {
+        for (let y = 0; y < IDENTICON_CELL; y++) {
+          const start = ((margin + row * IDENTICON_CELL + y) * size + margin + x * IDENTICON_CELL) * 4;
+          for (let i = 0; i < IDENTICON_CELL; i++) image.data.set(colour, start + i * 4);
+        }
+      }
+    }
+  }
+  return image;
+};
+
+export const createTransparentPixel = (): RawImage => createImage(1, 1);
@@ -0,0 +1,188 @@
+/**
+ * GIF decoder. Decodes the first frame onto a transparent logical screen,
+ * honouring global and local palettes, transparency and interlacing.
+ */
+
+import { MAX_DECODED_PIXELS, createImage, type RawImage } from "./image";
+
+const MAX_CODE_SIZE = 12;
+
+// Rows of each interlace pass: [first row, step]
+const INTERLACE_PASSES = [
+  [0, 8],
+  [4, 8],
+  [2, 4],
+  [1, 2],
+];
+
+export const isGif = (buf: Uint8Array): boolean =>
+  buf.length > 6 && String.fromCharCode(...buf.subarray(0, 6)).match(/^GIF8[79]a$/) !== null;
+
+// Concatenates the data sub-blocks starting at pos
+const readSubBlocks = (buf: Uint8Array, pos: number): { data: Uint8Array; end: number } => {
+  const parts: Uint8Array[] = [];
+  let total = 0;
+  while (pos < buf.length && buf[pos] !== 0) {
+    const size = buf[pos];
+    parts.push(buf.subarray(pos + 1, pos + 1 + size));
+    total += size;
+    pos += 1 + size;
+  }
+  const data = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    data.set(part, offset);
+    offset += part.length;
+  }
+  return { data, end: pos + 1 };
+};
+
+const skipSubBlocks = (buf: Uint8Array, pos: number): number => {
+  while (pos < buf.length && buf[pos] !== 0) pos += 1 + buf[pos];
+  return pos + 1;
+};
+
+/**
+ * Variable-width LZW decoding of a frame's palette indices. Streams that end
+ * early leave the remaining pixels at index 0.
+ */
+const decodeLzw = (data: Uint8Array, minCodeSize: number, pixelCount: number): Uint8Array => {
+  if (minCodeSize < 2 || minCodeSize > 8) throw new Error("bad GIF LZW code size");
+  const clear = 1 << minCodeSize;
+  const end = clear + 1;
+  const prefix = new Uint16Array(1 << MAX_CODE_SIZE);
+  const suffix = new Uint8Array(1 << MAX_CODE_SIZE);
+  const stack = new Uint8Array(1 << MAX_CODE_SIZE);
+  for (let i = 0; i < clear; i++) suffix[i] = i;
+
+  const out = new Uint8Array(pixelCount);
+  let written = 0;
+  let codeSize = minCodeSize + 1;
+  let next = end + 1;
+  let prev = -1;
+  let firstChar = 0;
+  let bitBuf = 0;
+  let bitCount = 0;
+  let pos = 0;
+
+  while (written < pixelCount) {
+    while (bitCount < codeSize && pos < data.length) {
+      bitBuf |= data[pos++] << bitCount;
+      bitCount += 8;
+    }
+    if (bitCount < codeSize) break;
+    const code = bitBuf & ((1 << codeSize) - 1);
+    bitBuf >>>= codeSize;
+    bitCount -= codeSize;
+
+    if (code === clear) {
+      codeSize = minCodeSize + 1;
+      next = end + 1;
+      prev = -1;
+      continue;
+    }
+    if (code === end) break;
+
+    let top = 0;
+    let c = code;
+    if (code >= next) {
+      // The code being defined right now: the previous string plus its first character
+      if (code > next || prev < 0) throw new Error("bad GIF LZW code");
+      stack[top++] = firstChar;
+      c = prev;
+    }
+    while (c >= clear) {
+      stack[top++] = suffix[c];
+      c = prefix[c];
+    }
+    firstChar = c;
+    stack[top++] = c;
+
+    if (prev >= 0 && next < 1 << MAX_CODE_SIZE) {
+      prefix[next] = prev;
+      suffix[next] = firstChar;
+      next++;
+      if (next === 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+    }
+    prev = code;
+    while (top > 0 && written < pixelCount) out[written++] = stack[--top];
+  }
+  return out;
+};
+
+export const decodeGif = (buf: Uint8Array): RawImage | null => {
+  if (!isGif(buf) || buf.length < 13) return null;
+  try {
+    let screenWidth = buf[6] | (buf[7] << 8);
+    let screenHeight = buf[8] | (buf[9] << 8);
+    const screenFlags = buf[10];
+    let pos = 13;
+    let globalPalette: Uint8Array | null = null;
+    if (screenFlags & 0x80) {
+      const size = 3 << ((screenFlags & 7) + 1);
+      globalPalette = buf.subarray(pos, pos + size);
+      pos += size;
+    }
+
+    let transparent = -1;
+    while (pos < buf.length) {
+      const block = buf[pos++];
+      if (block === 0x3b) break; // trailer without any image
+      if (block === 0x21) {
+        // Extension: only the graphic control block before the first image matters
+        const label = buf[pos++];
+        if (label === 0xf9 && buf[pos] >= 4) transparent = buf[pos + 1] & 1 ? buf[pos + 4] : -1;
+        pos = skipSubBlocks(buf, pos);
+        continue;
+      }
+      if (block !== 0x2c) throw new Error("unknown GIF block");
+
+      const left = buf[pos] | (buf[pos + 1] << 8);
+      const top = buf[pos + 2] | (buf[pos + 3] << 8);
+      const width = buf[pos + 4] | (buf[pos + 5] << 8);
+      const height = buf[pos + 6] | (buf[pos + 7] << 8);
+      const flags = buf[pos + 8];
+      pos += 9;
+      let palette = globalPalette;
+      if (flags & 0x80) {
+        const size = 3 << ((flags & 7) + 1);
+        palette = buf.subarray(pos, pos + size);
+        pos += size;
+      }
+      if (!palette) throw new Error("GIF without a palette");
+
+      // Some encoders leave the logical screen empty; use the frame instead
+      if (!screenWidth || !screenHeight) {
+        screenWidth = left + width;
+        screenHeight = top + height;
+      }
+      if (!width || !height || screenWidth * screenHeight > MAX_DECODED_PIXELS) throw new Error("bad GIF size");
+      const minCodeSize = buf[pos++];
+      const indices = decodeLzw(readSubBlocks(buf, pos).data, minCodeSize, width * height);
+
+      // Interlaced frames store rows in four passes
+      const rows: number[] = [];
+      if (flags & 0x40) for (const [first, step] of INTERLACE_PASSES) for (let y = first; y < height; y += step) rows.push(y);
+      else for (let y = 0; y < height; y++) rows.push(y);
+
+      const image = createImage(screenWidth, screenHeight);
+      for (let r = 0; r < height; r++) {
+        const y = top + rows[r];
+        if (y >= screenHeight) continue;
+        for (let x = 0; x < width && left + x < screenWidth; x++) {
+          const index = indices[r * width + x];
+          if (index === transparent || index * 3 + 2 >= palette.length) continue;
+          const o = (y * screenWidth + left + x) * 4;
+          image.data[o] = palette[index * 3];
+          image.data[o + 1] = palette[index * 3 + 1];
+          image.data[o + 2] = palette[index * 3 + 2];
+          image.data[o + 3] = 255;
+        }
+      }
+      return image;
+    }
+    return null;
+  } catch {
+    return null; // corrupt or unsupported
+  }
+};
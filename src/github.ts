@@ -0,0 +1,191 @@
+/**
+ * GitHub GraphQL lookups.
+ * With a GITHUB_TOKEN bound, og:images come from the API instead of (or as
+ * well as) scraping HTML, so markup changes and login walls don't turn into
+ * false 404s. The last seen rate limit is tracked per isolate and the API is
+ * skipped, falling through to scraping, while it is nearly used up. The
+ * same token lists repo files for ?source=logo.
+ */
+
+import type { Env } from "./env";
+import type { PageMeta } from "./meta";
+import { USER_AGENT } from "./providers";
+
+export type LookupStrategy = "api" | "scrape";
+
+export type GitHubApiResult = { status: "found"; url: string; meta: PageMeta } | { status: "missing" } | { status: "error" };
+
+// File names per listed directory ("" is the root); a missing directory lists nothing
+export type GitHubRepoFiles =
+  | { status: "found"; homepage: string | null; files: Map<string, string[]> }
+  | { status: "missing" }
+  | { status: "error" };
+
+export interface RateLimit {
+  remaining: number | null; // null until the API has been called
+  reset: number; // epoch ms
+}
+
+const GRAPHQL_URL = "https://api.github.com/graphql";
+const RATE_LIMIT_RESERVE = 50; // leave headroom for anything else sharing the token
+const AVATAR_SIZE = 400; // matches the avatars GitHub puts in og:image
+
+const REPOSITORY_QUERY = `query($owner: String!, $name: String!) {
+  repository(owner: $owner, name: $name) {
+    nameWithOwner
+    description
+    stargazerCount
+    openGraphImageUrl
+    usesCustomOpenGraphImage
+    owner { avatarUrl(size: ${AVATAR_SIZE}) }
+  }
+}`;
+
+const OWNER_QUERY = `query($login: String!) {
+  repositoryOwner(login: $login) {
+    login
+    avatarUrl(size: ${AVATAR_SIZE})
+  }
+}`;
+
+// Directories are passed as variables, so their names never need escaping
+const repoFilesQuery = (count: number): string => {
+  const indexes = [...Array(count).keys()];
+  return `query($owner: String!, $name: String!${indexes.map((i) => `, $dir${i}: String!`).join("")}) {
+  repository(owner: $owner, name: $name) {
+    homepageUrl
+    ${indexes.map((i) => `dir${i}: object(expression: $dir${i}) { ... on Tree { entries { name type } } }`).join("\n    ")}
+  }
+}`;
+};
+
+let rateLimit: RateLimit = { remaining: null, reset: 0 };
+
+export const getRateLimit = (): RateLimit => rateLimit;
+
+const isRateLimited = (): boolean =>
+  rateLimit.remaining !== null && rateLimit.remaining <= RATE_LIMIT_RESERVE && Date.now() < rateLimit.reset;
+
+const recordRateLimit = (headers: Headers): void => {
+  const remaining = headers.get("X-RateLimit-Remaining");
+  const reset = headers.get("X-RateLimit-Reset");
+  if (remaining === null || reset === null) return;
+  rateLimit = { remaining: Number(remaining), reset: Number(reset) * 1000 };
+};
+
+/**
+ * Order to try lookup strategies in, from GITHUB_LOOKUP ("api,scrape",
+ * "scrape,api", "api" or "scrape"). The API needs a token; without one,
+ * or with nothing valid configured, this falls back to scraping.
+ */
+export const parseLookupOrder = (env: Env): LookupStrategy[] => {
+  const configured = (env.GITHUB_LOOKUP ?? "api,scrape").split(",").map((s) => s.trim());
+  const order = configured.filter(
+    (s): s is LookupStrategy => s === "scrape" || (s === "api" && Boolean(env.GITHUB_TOKEN)),
+  );
+  return order.length ? [...new Set(order)] : ["scrape"];
+};
+
+const queryGraphql = async (token: string, query: string, variables: Record<string, string>): Promise<unknown> => {
+  const response = await fetch(GRAPHQL_URL, {
+    method: "POST",
+    headers: {
+      Authorization: `bearer ${token}`,
+      "Content-Type": "application/json",
+      "User-Agent": USER_AGENT,
+    },
+    body: JSON.stringify({ query, variables }),
+  });
+  recordRateLimit(response.headers);
+  if (!response.ok) return null;
+  return response.json();
+};
+
+interface GraphqlResponse {
+  data?: {
+    repository?: {
+      nameWithOwner: string;
+      description: string | null;
+      stargazerCount: number;
+      openGraphImageUrl: string;
+      usesCustomOpenGraphImage: boolean;
+      owner: { avatarUrl: string };
+    } | null;
+    repositoryOwner?: { login: string; avatarUrl: string } | null;
+  } | null;
+  errors?: { type?: string }[];
+}
+
+interface RepoFilesResponse {
+  data?: {
+    repository?: ({ homepageUrl: string | null } & Record<string, { entries?: { name: string; type: string }[] } | null>) | null;
+  } | null;
+  errors?: { type?: string }[];
+}
+
+// Paths are already validated as /owner or /owner/repo
+export const fetchGitHubApiImage = async (path: string, token: string): Promise<GitHubApiResult> => {
+  if (isRateLimited()) return { status: "error" };
+  const [owner, name] = path.split("/").filter(Boolean);
+  let body: GraphqlResponse | null;
+  try {
+    body = (await (name
+      ? queryGraphql(token, REPOSITORY_QUERY, { owner, name })
+      : queryGraphql(token, OWNER_QUERY, { login: owner }))) as GraphqlResponse | null;
+  } catch {
+    return { status: "error" };
+  }
+  if (!body) return { status: "error" };
+
+  const repository = body.data?.repository;
+  if (repository) {
+    return {
+      status: "found",
+      // The same image og:image points at, whether custom or GitHub's generated card
+      url: repository.openGraphImageUrl || repository.owner.avatarUrl,
+      meta: {
+        title: repository.nameWithOwner,
+        description: repository.description,
+        twitterImage: null,
+        stars: repository.stargazerCount,
+        customImage: repository.usesCustomOpenGraphImage,
+      },
+    };
+  }
+  const repositoryOwner = body.data?.repositoryOwner;
+  if (repositoryOwner) {
+    return {
+      status: "found",
+      url: repositoryOwner.avatarUrl,
+      meta: { title: repositoryOwner.login, description: null, twitterImage: null, stars: null },
+    };
+  }
+  // A NOT_FOUND error, or a null owner with no errors, is a real miss; anything else may be transient
+  const notFound = body.errors
+    ? body.errors.some((e) => e.type === "NOT_FOUND")
+    : !name && body.data?.repositoryOwner === null;
+  return notFound ? { status: "missing" } : { status: "error" };
+};
+
+// Lists files (not subdirectories) in each directory of a repo's default branch, in one query
+export const fetchGitHubRepoFiles = async (path: string, directories: string[], token: string): Promise<GitHubRepoFiles> => {
+  if (isRateLimited()) return { status: "error" };
+  const [owner, name] = path.split("/").filter(Boolean);
+  const variables: Record<string, string> = { owner, name };
+  directories.forEach((dir, i) => (variables[`dir${i}`] = `HEAD:${dir}`));
+  let body: RepoFilesResponse | null;
+  try {
+    body = (await queryGraphql(token, repoFilesQuery(directories.length), variables)) as RepoFilesResponse | null;
+  } catch {
+    return { status: "error" };
+  }
+
+  const repository = body?.data?.repository;
+  if (!repository) return body?.errors?.some((e) => e.type === "NOT_FOUND") ? { status: "missing" } : { status: "error" };
+  const files = new Map<string, string[]>();
+  directories.forEach((dir, i) => {
+    const entries = repository[`dir${i}`]?.entries ?? [];
+    files.set(dir, entries.filter((e) => e.type === "blob").map((e) => e.name));
+  });
+  return { status: "found", homepage: repository.homepageUrl || null, files };
+};
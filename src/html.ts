@@ -0,0 +1,172 @@
+/**
+ * Streaming <head> tokenizer.
+ * Chunks are fed in as they arrive and parsing stops at </head> (or the
+ * first body tag), so callers can cancel the download there instead of
+ * reading a several-hundred-KB page. It understands just what head metadata
+ * needs: tags and their attributes in any order and quoting, comments,
+ * <title> text, and raw-text elements to skip. Plain TypeScript rather than
+ * HTMLRewriter, so it runs outside the Workers runtime too.
+ */
+
+export interface HeadTag {
+  name: string; // lowercased
+  attributes: Record<string, string>; // names lowercased, values decoded; the first of a repeated name wins
+}
+
+export interface HeadParser {
+  // Returns true once the head has ended; later chunks are ignored
+  write: (chunk: string) => boolean;
+  tags: HeadTag[]; // <meta> and <link> tags in document order
+  title: () => string | null;
+}
+
+// Every HTML 4 named entity, which covers what pages put in their metadata
+const LATIN_1_NAMES =
+  "nbsp iexcl cent pound curren yen brvbar sect uml copy ordf laquo not shy reg macr deg plusmn sup2 sup3 acute micro para middot cedil sup1 ordm raquo frac14 frac12 frac34 iquest Agrave Aacute Acirc Atilde Auml Aring AElig Ccedil Egrave Eacute Ecirc Euml Igrave Iacute Icirc Iuml ETH Ntilde Ograve Oacute Ocirc Otilde Ouml times Oslash Ugrave Uacute Ucirc Uuml Yacute THORN szlig agrave aacute acirc atilde auml aring aelig ccedil egrave eacute ecirc euml igrave iacute icirc iuml eth ntilde ograve oacute ocirc otilde ouml divide oslash ugrave uacute ucirc uuml yacute thorn yuml";
+const GREEK_UPPER = "Alpha Beta Gamma Delta Epsilon Zeta Eta Theta Iota Kappa Lambda Mu Nu Xi Omicron Pi Rho";
+const GREEK_UPPER_AFTER_RHO = "Sigma Tau Upsilon Phi Chi Psi Omega"; // U+03A2 is unassigned
+const GREEK_LOWER = "alpha beta gamma delta epsilon zeta eta theta iota kappa lambda mu nu xi omicron pi rho sigmaf sigma tau upsilon phi chi psi omega";
+const OTHER_ENTITIES: Record<string, number> = {
+  quot: 34, amp: 38, apos: 39, lt: 60, gt: 62, OElig: 338, oelig: 339, Scaron: 352, scaron: 353, Yuml: 376,
+  fnof: 402, circ: 710, tilde: 732, thetasym: 977, upsih: 978, piv: 982, ensp: 8194, emsp: 8195, thinsp: 8201,
+  zwnj: 8204, zwj: 8205, lrm: 8206, rlm: 8207, ndash: 8211, mdash: 8212, lsquo: 8216, rsquo: 8217, sbquo: 8218,
+  ldquo: 8220, rdquo: 8221, bdquo: 8222, dagger: 8224, Dagger: 8225, bull: 8226, hellip: 8230, permil: 8240,
+  prime: 8242, Prime: 8243, lsaquo: 8249, rsaquo: 8250, oline: 8254, frasl: 8260, euro: 8364, image: 8465,
+  weierp: 8472, real: 8476, trade: 8482, alefsym: 8501, larr: 8592, uarr: 8593, rarr: 8594, darr: 8595,
+  harr: 8596, crarr: 8629, lArr: 8656, uArr: 8657, rArr: 8658, dArr: 8659, hArr: 8660, forall: 8704, part: 8706,
+  exist: 8707, empty: 8709, nabla: 8711, isin: 8712, notin: 8713, ni: 8715, prod: 8719, sum: 8721, minus: 8722,
+  lowast: 8727, radic: 8730, prop: 8733, infin: 8734, ang: 8736, and: 8743, or: 8744, cap: 8745, cup: 8746,
+  int: 8747, there4: 8756, sim: 8764, cong: 8773, asymp: 8776, ne: 8800, equiv: 8801, le: 8804, ge: 8805,
+  sub: 8834, sup: 8835, nsub: 8836, sube: 8838, supe: 8839, oplus: 8853, otimes: 8855, perp: 8869, sdot: 8901,
+  lceil: 8968, rceil: 8969, lfloor: 8970, rfloor: 8971, lang: 9001, rang: 9002, loz: 9674, spades: 9824,
+  clubs: 9827, hearts: 9829, diams: 9830,
+};
+
+// Names listed in code point order from a starting point
+const run = (names: string, start: number): [string, number][] => names.split(" ").map((name, i) => [name, start + i]);
+
+const NAMED_ENTITIES = new Map<string, number>([
+  ...run(LATIN_1_NAMES, 160),
+  ...run(GREEK_UPPER, 913),
+  ...run(GREEK_UPPER_AFTER_RHO, 931),
+  ...run(GREEK_LOWER, 945),
+  ...Object.entries(OTHER_ENTITIES),
+]);
+
+const ENTITY_REGEX = /&(?:#(\d{1,7})|#[xX]([\da-fA-F]{1,6})|([a-zA-Z][a-zA-Z\d]*));/g;
+
+const fromCodePoint = (n: number): string =>
+  n > 0 && n <= 0x10ffff && (n < 0xd800 || n > 0xdfff) ? String.fromCodePoint(n) : "�";
+
+// Named, decimal and hex references; unknown names are left as written
+export const decodeHtmlEntities = (str: string): string =>
+  str.replace(ENTITY_REGEX, (match, dec: string | undefined, hex: string | undefined, name: string | undefined) => {
+    if (dec) return fromCodePoint(Number(dec));
+    if (hex) return fromCodePoint(parseInt(hex, 16));
+    const code = NAMED_ENTITIES.get(name!);
+    return code === undefined ? match : String.fromCodePoint(code);
+  });
+
+const TAG_NAME_REGEX = /^(\/?)([a-zA-Z][\w:-]*)/;
+const ATTRIBUTE_REGEX = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+// Elements whose content is text, not markup, so a "<" inside them isn't a tag
+const RAW_TEXT_ELEMENTS = new Set(["script", "style", "title"]);
+
+// An unterminated tag or comment can't make the parser hold the rest of the page
+const MAX_PENDING_LENGTH = 64 * 1024;
+
+// Index of the ">" closing a tag, skipping any inside quoted attribute values
+const findTagEnd = (text: string, start: number): number => {
+  let quote = "";
+  for (let i = start + 1; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === quote) quote = "";
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === ">") {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const parseAttributes = (text: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  for (const [, name, double, single, bare] of text.matchAll(ATTRIBUTE_REGEX)) {
+    const key = name.toLowerCase();
+    if (!(key in attributes)) attributes[key] = decodeHtmlEntities(double ?? single ?? bare ?? "");
+  }
+  return attributes;
+};
+
+export const createHeadParser = (): HeadParser => {
+  let buffer = "";
+  let done = false;
+  let title: string | null = null;
+  const tags: HeadTag[] = [];
+
+  const write = (chunk: string): boolean => {
+    if (done) return true;
+    buffer += chunk;
+    let pos = 0;
+    while (!done) {
+      const lt = buffer.indexOf("<", pos);
+      if (lt < 0) {
+        pos = buffer.length;
+        break;
+      }
+      if (buffer.startsWith("<!--", lt)) {
+        const end = buffer.indexOf("-->", lt + 4);
+        if (end < 0) {
+          pos = lt;
+          break;
+        }
+        pos = end + 3;
+        continue;
+      }
+      const end = findTagEnd(buffer, lt);
+      if (end < 0) {
+        pos = lt;
+        break;
+      }
+      const tagText = buffer.slice(lt + 1, end);
+      const match = tagText.match(TAG_NAME_REGEX);
+      if (!match) {
+        pos = end + 1; // doctype, processing instruction or a stray "<"
+        continue;
+      }
+      const name = match[2].toLowerCase();
+      if (match[1]) {
+        done = name === "head";
+        pos = end + 1;
+        continue;
+      }
+      if (name === "body") {
+        done = true;
+        continue;
+      }
+      if (RAW_TEXT_ELEMENTS.has(name)) {
+        const close = new RegExp(`</${name}\\s*>`, "ig");
+        close.lastIndex = end + 1;
+        const closeMatch = close.exec(buffer);
+        if (!closeMatch) {
+          pos = lt; // re-read from the opening tag once more has arrived
+          break;
+        }
+        if (name === "title" && title === null) title = decodeHtmlEntities(buffer.slice(end + 1, closeMatch.index)).trim();
+        pos = close.lastIndex;
+        continue;
+      }
+      if (name === "meta" || name === "link") tags.push({ name, attributes: parseAttributes(tagText.slice(match[0].length)) });
+      pos = end + 1;
+    }
+    // Whatever is left is the start of a tag still arriving
+    buffer = buffer.slice(pos);
+    if (buffer.length > MAX_PENDING_LENGTH) done = true;
+    return done;
+  };
+
+  return { write, tags, title: () => title };
+};
@@ -0,0 +1,19 @@
+/**
+ * Decoded image shared by every codec and transform: 8-bit RGBA, row-major,
+ * no padding between rows.
+ */
+export interface RawImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // width * height * 4 bytes
+}
+
+// Decoders refuse anything larger, and padding won't produce it. Each image in flight takes
+// several copies (decoded RGBA, padded copy, encoder rows, deflate), which must fit in 128 MB
+export const MAX_DECODED_PIXELS = 2048 * 2048;
+
+export const createImage = (width: number, height: number): RawImage => ({
+  width,
+  height,
+  data: new Uint8Array(width * height * 4),
+});
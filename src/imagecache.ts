@@ -0,0 +1,145 @@
+/**
+ * Cache for transformed image bytes, so repeat ?ratio= or ?w= requests skip
+ * the download, decode and re-encode. Keys hash the source image URL with
+ * the transform options and the path's generation: when a path's og:image URL
+ * changes, or it is purged, its requests land on a new key and the old
+ * entries simply age out.
+ * Lookups go caches.default -> R2 (when IMAGE_CACHE is bound).
+ */
+
+import { CACHE_API_ORIGIN, getDefaultCache, secondsUntil } from "./cache";
+import { CONTENT_TYPES, type EncodedImage } from "./encode";
+import type { Env } from "./env";
+
+// "original": the source can't be decoded or no step changes it, so it's served as-is
+export type TransformedImage =
+  | { status: "encoded"; body: Uint8Array; etag: string; contentType: string }
+  | { status: "original" };
+
+// Avatars keep their URL when replaced, so entries can't live forever
+const IMAGE_CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 1 day
+
+const R2_KEY_PREFIX = "transform/";
+
+const sha256Hex = async (data: Uint8Array): Promise<string> => {
+  const hash = new Uint8Array(await crypto.subtle.digest("SHA-256", data));
+  return [...hash].map((b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+// Strong ETag over the encoded bytes; the encoders are deterministic, so every layer agrees
+export const createTransformedImage = async ({ format, body }: EncodedImage): Promise<TransformedImage> => ({
+  status: "encoded",
+  body,
+  etag: `"${(await sha256Hex(body)).slice(0, 32)}"`,
+  contentType: CONTENT_TYPES[format],
+});
+
+// Entries written before WebP output were all PNGs
+const DEFAULT_CONTENT_TYPE = CONTENT_TYPES.png;
+
+// Source URLs can be long and contain anything, so keys are hashed
+const hashKey = (key: string): Promise<string> => sha256Hex(new TextEncoder().encode(key));
+
+const cacheApiKey = (hash: string): Request => new Request(`${CACHE_API_ORIGIN}/transform/${hash}`);
+
+const readCacheApi = async (hash: string): Promise<TransformedImage | null> => {
+  const cache = getDefaultCache();
+  if (!cache) return null;
+  try {
+    const response = await cache.match(cacheApiKey(hash));
+    if (!response) return null;
+    const etag = response.headers.get("ETag");
+    if (!etag) return { status: "original" };
+    const contentType = response.headers.get("Content-Type") ?? DEFAULT_CONTENT_TYPE;
+    return { status: "encoded", body: new Uint8Array(await response.arrayBuffer()), etag, contentType };
+  } catch {
+    return null;
+  }
+};
+
+const writeCacheApi = async (hash: string, image: TransformedImage, expires: number): Promise<void> => {
+  const cache = getDefaultCache();
+  if (!cache) return;
+  try {
+    await cache.put(
+      cacheApiKey(hash),
+      new Response(image.status === "encoded" ? image.body : null, {
+        headers: {
+          "Cache-Control": `max-age=${secondsUntil(expires)}`,
+          ...(image.status === "encoded" ? { "Content-Type": image.contentType, ETag: image.etag } : {}),
+        },
+      }),
+    );
+  } catch {
+    // Cache API failures only cost us a re-transform next time
+  }
+};
+
+const deleteR2 = async (env: Env, hash: string): Promise<void> => {
+  try {
+    await env.IMAGE_CACHE?.delete(R2_KEY_PREFIX + hash);
+  } catch {
+    // The bucket's lifecycle rule catches anything left behind
+  }
+};
+
+// R2 has no per-object TTL, so the expiry rides along in custom metadata and
+// expired objects are deleted when a read finds them
+const readR2 = async (
+  env: Env,
+  ctx: ExecutionContext,
+  hash: string,
+): Promise<{ image: TransformedImage; expires: number } | null> => {
+  if (!env.IMAGE_CACHE) return null;
+  try {
+    const object = await env.IMAGE_CACHE.get(R2_KEY_PREFIX + hash);
+    if (!object) return null;
+    const expires = Number(object.customMetadata?.expires);
+    const etag = object.customMetadata?.etag;
+    if (!(expires > Date.now())) {
+      await object.body.cancel();
+      ctx.waitUntil(deleteR2(env, hash));
+      return null;
+    }
+    if (!etag) {
+      await object.body.cancel();
+      return { image: { status: "original" }, expires };
+    }
+    const contentType = object.httpMetadata?.contentType ?? DEFAULT_CONTENT_TYPE;
+    const body = new Uint8Array(await object.arrayBuffer());
+    return { image: { status: "encoded", body, etag, contentType }, expires };
+  } catch {
+    return null;
+  }
+};
+
+const writeR2 = async (env: Env, hash: string, image: TransformedImage, expires: number): Promise<void> => {
+  if (!env.IMAGE_CACHE) return;
+  try {
+    await env.IMAGE_CACHE.put(R2_KEY_PREFIX + hash, image.status === "encoded" ? image.body : new Uint8Array(0), {
+      httpMetadata: image.status === "encoded" ? { contentType: image.contentType } : {},
+      customMetadata: { expires: String(expires), ...(image.status === "encoded" ? { etag: image.etag } : {}) },
+    });
+  } catch {
+    // Losing a write only costs a re-transform
+  }
+};
+
+// key: the transform options and source URL, as used for coalescing
+export const getCachedImage = async (key: string, env: Env, ctx: ExecutionContext): Promise<TransformedImage | null> => {
+  const hash = await hashKey(key);
+  const edge = await readCacheApi(hash);
+  if (edge) return edge;
+
+  const stored = await readR2(env, ctx, hash);
+  if (!stored) return null;
+  ctx.waitUntil(writeCacheApi(hash, stored.image, stored.expires));
+  return stored.image;
+};
+
+export const setCachedImage = (key: string, image: TransformedImage, env: Env, ctx: ExecutionContext): void => {
+  const expires = Date.now() + IMAGE_CACHE_TTL_MS;
+  ctx.waitUntil(
+    hashKey(key).then((hash) => Promise.all([writeCacheApi(hash, image, expires), writeR2(env, hash, image, expires)])),
+  );
+};
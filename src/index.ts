@@ -3,379 +3,430 @@
  * Redirects to the og:image of a GitHub repository, organization, or user.
  */
 
-interface CacheEntry {
-  url: string | null; // null = cached 404
-  expires: number;
-}
+import { checkAdminAuth, parsePurgeBody, parseWarmPaths } from "./admin";
+import {
+  BATCH_CONCURRENCY,
+  mapConcurrent,
+  parseBatchBody,
+  parseBatchQuery,
+  runBatch,
+  type BatchEntry,
+  type BatchPaths,
+} from "./batch";
+import {
+  CACHE_TTL_MS,
+  MAX_MEMORY_ENTRIES,
+  deleteCached,
+  getCached,
+  listCachedPaths,
+  memoryCacheSize,
+  setCache,
+  type CacheLayer,
+  type CacheLookup,
+  type Freshness,
+} from "./cache";
+import { extractColors, type ImageColors } from "./colors";
+import { createIdenticon, createTransparentPixel, parseFallbackOptions, type FallbackOptions } from "./fallback";
+import { decodeImage, readImageSize } from "./decode";
+import { CONTENT_TYPES, acceptsWebp, encodeImage, type OutputFormat } from "./encode";
+import type { Env } from "./env";
+import { fetchGitHubApiImage, parseLookupOrder, type LookupStrategy } from "./github";
+import type { RawImage } from "./image";
+import { createTransformedImage, getCachedImage, setCachedImage, type TransformedImage } from "./imagecache";
+import { createCoalescer } from "./inflight";
+import { LOGO_KEY_SUFFIX, discoverLogo, parseSourceParam } from "./logo";
+import { EMPTY_PAGE_META, scrapePage, type PageMeta } from "./meta";
+import {
+  createRequestMetrics,
+  finishRequest,
+  getStats,
+  recordLookup,
+  recordTransform,
+  recordUpstream,
+  type RequestMetrics,
+} from "./metrics";
+import { matchGitHubPage } from "./pages";
+import {
+  CONDITIONAL_HEADERS,
+  PROXY_SECURITY_HEADERS,
+  VALIDATOR_HEADERS,
+  etagMatches,
+  isProxyAllowed,
+  parseProxyParam,
+} from "./proxy";
+import { DEFAULT_HOST, USER_AGENT, lookupKey, resolveProvider, type Provider } from "./providers";
+import { takeClientTokens, takeUpstreamToken } from "./ratelimit";
+import {
+  BADGE_AVATAR_SIZE,
+  CARD_AVATAR_SIZE,
+  cleanDescription,
+  displayName,
+  parseSvgOptions,
+  renderBadge,
+  renderCard,
+  toPngDataUri,
+  type SvgOptions,
+} from "./svg";
+import { parseTransformOptions, transformAndEncode, transformImage, transformKey, type TransformOptions } from "./transform";
+
+// Durable Object classes must be exported from the main module
+export { RateLimiter } from "./ratelimit";
 
-const CACHE_TTL_MS = 60 * 60 * 1000; // 1 hour
-const CACHE_404_TTL_MS = 5 * 60 * 1000; // 5 minutes for 404s
 const CACHE_TTL_SECONDS = 3600;
-const OG_IMAGE_REGEX = /<meta\s+property="og:image"\s+content="([^"]+)"/i;
-const ALT_OG_IMAGE_REGEX = /<meta\s+content="([^"]+)"\s+property="og:image"/i;
-
-// In-memory cache persists for worker isolate lifetime
-const memoryCache = new Map<string, CacheEntry>();
 
-const HTML_ENTITIES: Record<string, string> = {
-  "&amp;": "&",
-  "&lt;": "<",
-  "&gt;": ">",
-  "&quot;": '"',
-  "&#39;": "'",
-  "&#x27;": "'",
-  "&#x2F;": "/",
+// Case is left to the provider, since git refs are case-sensitive
+const trimPath = (path: string): string => {
+  // Remove trailing slashes
+  return path.replace(/\/+$/, "") || "/";
 };
 
-const decodeHtmlEntities = (str: string): string =>
-  str.replace(/&(?:amp|lt|gt|quot|#39|#x27|#x2F);/g, (m) => HTML_ENTITIES[m] ?? m);
+const INVALID_PATH_MESSAGE = "Invalid path. Use /{owner} or /{owner}/{repo}";
+const INVALID_HOST_MESSAGE = "Unknown host. Use github, gitlab, codeberg, bitbucket or a configured forge";
+const NOT_FOUND_MESSAGE = "Not found or no og:image available";
+const UPSTREAM_LIMITED_MESSAGE = "Too many lookups right now, try again later";
 
-const normalizePath = (path: string): string => {
-  // Remove trailing slashes, normalize to lowercase
-  return path.replace(/\/+$/, "").toLowerCase() || "/";
-};
+const upstreamErrorMessage = (provider: Provider): string =>
+  `${provider.name === DEFAULT_HOST ? "GitHub" : new URL(provider.baseUrl).host} is unavailable, try again later`;
 
-const ALLOWED_RATIOS: Record<string, [number, number]> = {
-  "3:2": [3, 2],
-  "4:3": [4, 3],
-};
+// Every image download (transforms, JSON probes and the proxy) goes through here
+const fetchImage = (imageUrl: string, headers: Record<string, string> = {}): Promise<Response> =>
+  fetch(imageUrl, { headers: { "User-Agent": USER_AGENT, ...headers } });
 
-// --- PNG utilities for aspect-ratio padding ---
+// How an untransformed image reaches the client: a redirect, or streamed with ?proxy=1
+type ServeImage = (imageUrl: string, headers: Record<string, string>) => Promise<Response>;
 
-const crc32Table = (() => {
-  const t = new Uint32Array(256);
-  for (let n = 0; n < 256; n++) {
-    let c = n;
-    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
-    t[n] = c;
-  }
-  return t;
-})();
+const redirectToImage: ServeImage = async (imageUrl, headers) => buildRedirectResponse(imageUrl, 302, headers);
 
-const crc32 = (data: Uint8Array, start = 0, end = data.length): number => {
-  let crc = 0xffffffff;
-  for (let i = start; i < end; i++) crc = crc32Table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
-  return (crc ^ 0xffffffff) >>> 0;
-};
+// What image responses need from the request beyond the image itself
+interface ImageContext {
+  request: Request;
+  env: Env;
+  ctx: ExecutionContext;
+  serveOriginal: ServeImage;
+  metrics: RequestMetrics;
+  format: OutputFormat; // for images the worker encodes
+  negotiated: boolean; // format came from the Accept header, so responses vary on it
+}
 
-interface PngChunk {
-  type: string;
-  data: Uint8Array;
+// An image the worker may transform, with the generation of the lookup that found it
+interface ImageSource {
+  url: string;
+  generation: number;
 }
 
-const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
-
-const parsePngChunks = (buf: Uint8Array): PngChunk[] => {
-  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
-  let offset = 8; // skip signature
-  const chunks: PngChunk[] = [];
-  while (offset < buf.length) {
-    const length = view.getUint32(offset);
-    const type = String.fromCharCode(...buf.subarray(offset + 4, offset + 8));
-    const data = buf.subarray(offset + 8, offset + 8 + length);
-    chunks.push({ type, data });
-    offset += 12 + length; // 4 len + 4 type + data + 4 crc
-  }
-  return chunks;
-};
-
-const buildPng = (chunks: PngChunk[]): Uint8Array => {
-  let totalSize = 8; // signature
-  for (const c of chunks) totalSize += 12 + c.data.length;
-  const out = new Uint8Array(totalSize);
-  out.set(PNG_SIGNATURE);
-  let offset = 8;
-  for (const c of chunks) {
-    const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
-    view.setUint32(offset, c.data.length);
-    const typeBytes = new Uint8Array([
-      c.type.charCodeAt(0),
-      c.type.charCodeAt(1),
-      c.type.charCodeAt(2),
-      c.type.charCodeAt(3),
-    ]);
-    out.set(typeBytes, offset + 4);
-    out.set(c.data, offset + 8);
-    const crcVal = crc32(out, offset + 4, offset + 8 + c.data.length);
-    view.setUint32(offset + 8 + c.data.length, crcVal);
-    offset += 12 + c.data.length;
-  }
-  return out;
-};
-
-const zlibDecompress = async (data: Uint8Array): Promise<Uint8Array> => {
-  const ds = new DecompressionStream("deflate");
-  const writer = ds.writable.getWriter();
-  writer.write(data);
-  writer.close();
-  const reader = ds.readable.getReader();
-  const parts: Uint8Array[] = [];
-  for (;;) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    parts.push(value);
-  }
-  let totalLen = 0;
-  for (const p of parts) totalLen += p.length;
-  const result = new Uint8Array(totalLen);
-  let off = 0;
-  for (const p of parts) {
-    result.set(p, off);
-    off += p.length;
-  }
-  return result;
+// Concurrent requests for the same image, transform options and format share one cache lookup, download and encode
+const transformsInFlight = createCoalescer<TransformedImage>();
+
+const getTransformedImage = (
+  { url: ogImageUrl, generation }: ImageSource,
+  options: TransformOptions,
+  format: OutputFormat,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<TransformedImage> => {
+  const key = `${transformKey(options)} ${format} ${generation} ${ogImageUrl}`;
+  return transformsInFlight(key, async () => {
+    const cached = await getCachedImage(key, env, ctx);
+    if (cached) return cached;
+
+    // Failed downloads aren't cached, so the next request retries
+    const imgResp = await fetchImage(ogImageUrl);
+    if (!imgResp.ok) {
+      await imgResp.body?.cancel();
+      return { status: "original" };
+    }
+
+    // The format is sniffed from the bytes; anything undecodable is served as-is
+    const bytes = new Uint8Array(await imgResp.arrayBuffer());
+    const started = Date.now();
+    const encoded = await transformAndEncode(bytes, options, format);
+    recordTransform(Date.now() - started);
+    const image: TransformedImage = encoded ? await createTransformedImage(encoded) : { status: "original" };
+    setCachedImage(key, image, env, ctx);
+    return image;
+  });
 };
 
-const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
-  const cs = new CompressionStream("deflate");
-  const writer = cs.writable.getWriter();
-  writer.write(data);
-  writer.close();
-  const reader = cs.readable.getReader();
-  const parts: Uint8Array[] = [];
-  for (;;) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    parts.push(value);
-  }
-  let totalLen = 0;
-  for (const p of parts) totalLen += p.length;
-  const result = new Uint8Array(totalLen);
-  let off = 0;
-  for (const p of parts) {
-    result.set(p, off);
-    off += p.length;
+const buildTransformedImageResponse = async (
+  source: ImageSource,
+  options: TransformOptions,
+  headers: Record<string, string>,
+  { request, env, ctx, serveOriginal, metrics, format, negotiated }: ImageContext,
+): Promise<Response> => {
+  try {
+    const started = Date.now();
+    const image = await getTransformedImage(source, options, format, env, ctx);
+    metrics.transform = transformKey(options);
+    metrics.transformMs = Date.now() - started;
+    if (image.status === "original") return serveOriginal(source.url, headers);
+
+    const imageHeaders = negotiated ? { ...headers, Vary: "Accept" } : headers;
+    if (etagMatches(request.headers.get("If-None-Match"), image.etag)) {
+      return new Response(null, { status: 304, headers: { ETag: image.etag, ...imageHeaders } });
+    }
+    return new Response(image.body, {
+      headers: {
+        "Content-Type": image.contentType,
+        ETag: image.etag,
+        ...imageHeaders,
+      },
+    });
+  } catch {
+    return serveOriginal(source.url, headers);
   }
-  return result;
 };
 
-const padPng = async (
-  pngBytes: Uint8Array,
-  ratioW: number,
-  ratioH: number,
-): Promise<Uint8Array | null> => {
-  // Verify PNG signature
-  for (let i = 0; i < 8; i++) {
-    if (pngBytes[i] !== PNG_SIGNATURE[i]) return null;
-  }
-
-  const chunks = parsePngChunks(pngBytes);
-  const ihdrChunk = chunks.find((c) => c.type === "IHDR");
-  if (!ihdrChunk || ihdrChunk.data.length < 13) return null;
-
-  const ihdr = new DataView(ihdrChunk.data.buffer, ihdrChunk.data.byteOffset, ihdrChunk.data.byteLength);
-  const width = ihdr.getUint32(0);
-  const height = ihdr.getUint32(4);
-  const bitDepth = ihdr.getUint8(8);
-  const colorType = ihdr.getUint8(9);
-  const interlace = ihdr.getUint8(12);
-
-  // Bail on interlaced or indexed-color PNGs
-  if (interlace !== 0 || colorType === 3) return null;
-  // Only support 8-bit depth
-  if (bitDepth !== 8) return null;
-
-  const targetHeight = Math.ceil((width * ratioH) / ratioW);
-  if (height >= targetHeight) return null; // already tall enough
-
-  const paddingRows = targetHeight - height;
-
-  // Bytes per pixel based on color type
-  let bpp: number;
-  switch (colorType) {
-    case 0: bpp = 1; break; // grayscale
-    case 2: bpp = 3; break; // RGB
-    case 4: bpp = 2; break; // grayscale + alpha
-    case 6: bpp = 4; break; // RGBA
-    default: return null;
-  }
-
-  const rowBytes = 1 + width * bpp; // filter byte + pixel data
-
-  // Concatenate all IDAT data
-  const idatParts: Uint8Array[] = [];
-  for (const c of chunks) {
-    if (c.type === "IDAT") idatParts.push(c.data);
-  }
-  let idatTotal = 0;
-  for (const p of idatParts) idatTotal += p.length;
-  const idatConcat = new Uint8Array(idatTotal);
-  let off = 0;
-  for (const p of idatParts) {
-    idatConcat.set(p, off);
-    off += p.length;
-  }
-
-  const decompressed = await zlibDecompress(idatConcat);
-
-  // White padding row for the top
-  const whitePadRow = new Uint8Array(rowBytes);
-  whitePadRow[0] = 0; // None filter
-  whitePadRow.fill(0xff, 1);
-
-  // Split padding: white on top, stretched last row on bottom
-  const topRows = Math.ceil(paddingRows / 2);
-  const bottomRows = paddingRows - topRows;
-
-  // Unfilter all rows to recover raw pixel values for the last row.
-  // PNG filters encode each byte relative to neighbors, so we must
-  // decode sequentially from the top to get correct values.
-  const pixelBytes = width * bpp;
-  const unfiltered = new Uint8Array(height * pixelBytes);
-
-  const paeth = (a: number, b: number, c: number): number => {
-    const p = a + b - c;
-    const pa = Math.abs(p - a);
-    const pb = Math.abs(p - b);
-    const pc = Math.abs(p - c);
-    if (pa <= pb && pa <= pc) return a;
-    if (pb <= pc) return b;
-    return c;
-  };
+// "missing" is the forge saying the page has no image; "error" is the forge failing to answer,
+// or not being asked because the upstream rate limit is spent (retryAfter is then set)
+// generation is part of transform keys, so a purged or warmed path stops serving renders of the old image
+type OgImageResult =
+  | { status: "found"; url: string; meta: PageMeta; fetched: number | null; generation: number }
+  | { status: "missing" }
+  | { status: "error"; retryAfter?: number };
 
-  for (let row = 0; row < height; row++) {
-    const filterType = decompressed[row * rowBytes];
-    const srcOff = row * rowBytes + 1;
-    const dstOff = row * pixelBytes;
-    const prevOff = (row - 1) * pixelBytes;
-
-    for (let i = 0; i < pixelBytes; i++) {
-      const raw = decompressed[srcOff + i];
-      const a = i >= bpp ? unfiltered[dstOff + i - bpp] : 0;
-      const b = row > 0 ? unfiltered[prevOff + i] : 0;
-      const c = row > 0 && i >= bpp ? unfiltered[prevOff + i - bpp] : 0;
-
-      switch (filterType) {
-        case 0: unfiltered[dstOff + i] = raw; break;
-        case 1: unfiltered[dstOff + i] = (raw + a) & 0xff; break;
-        case 2: unfiltered[dstOff + i] = (raw + b) & 0xff; break;
-        case 3: unfiltered[dstOff + i] = (raw + ((a + b) >>> 1)) & 0xff; break;
-        case 4: unfiltered[dstOff + i] = (raw + paeth(a, b, c)) & 0xff; break;
-        default: unfiltered[dstOff + i] = raw; break;
-      }
-    }
+// What the forge answered, before refreshOgImage gives it the path's generation
+type ForgeResult = Exclude<OgImageResult, { status: "found" }> | { status: "found"; url: string; meta: PageMeta; fetched: number };
+
+// Which cache layer state answered; "miss" means the forge was asked just now
+type ResolvedOgImage = OgImageResult & { cache: Freshness | "miss"; layer?: CacheLayer };
+
+// GitHub shows a star count on repo pages only
+const hasStars = (provider: Provider, path: string): boolean =>
+  provider.kind === "github" && matchGitHubPage(path)?.type === "repo";
+
+// stars: keep reading past the head for the star count, which is only wanted for ?format=json and SVG cards
+const scrapeOgImage = async (provider: Provider, path: string, stars: boolean): Promise<ForgeResult> => {
+  const pageUrl = provider.pageUrl(path);
+  let response: Response;
+  try {
+    response = await fetch(pageUrl, {
+      headers: {
+        "User-Agent": USER_AGENT,
+        Accept: "text/html",
+      },
+    });
+  } catch {
+    return { status: "error" };
   }
 
-  // Re-encode all rows as filter=None using unfiltered pixel data.
-  // We can't mix filtered original data with new rows because filters
-  // reference neighboring rows, which would be wrong after insertion.
-  const lastRowPixels = unfiltered.subarray((height - 1) * pixelBytes, height * pixelBytes);
-
-  const totalRows = topRows + height + bottomRows;
-  const newData = new Uint8Array(totalRows * rowBytes);
-  let pos = 0;
-
-  // Top white padding
-  for (let r = 0; r < topRows; r++) {
-    newData.set(whitePadRow, pos);
-    pos += rowBytes;
-  }
-  // Original image rows (unfiltered)
-  for (let r = 0; r < height; r++) {
-    newData[pos] = 0; // None filter
-    newData.set(unfiltered.subarray(r * pixelBytes, (r + 1) * pixelBytes), pos + 1);
-    pos += rowBytes;
-  }
-  // Bottom: stretch last row
-  for (let r = 0; r < bottomRows; r++) {
-    newData[pos] = 0; // None filter
-    newData.set(lastRowPixels, pos + 1);
-    pos += rowBytes;
-  }
-
-  const compressed = await zlibCompress(newData);
-
-  // Rebuild chunks: update IHDR height, replace IDAT(s) with single new IDAT
-  const newIhdrData = new Uint8Array(ihdrChunk.data);
-  const newIhdrView = new DataView(newIhdrData.buffer, newIhdrData.byteOffset, newIhdrData.byteLength);
-  newIhdrView.setUint32(4, targetHeight);
-
-  const newChunks: PngChunk[] = [];
-  let idatInserted = false;
-  for (const c of chunks) {
-    if (c.type === "IHDR") {
-      newChunks.push({ type: "IHDR", data: newIhdrData });
-    } else if (c.type === "IDAT") {
-      if (!idatInserted) {
-        newChunks.push({ type: "IDAT", data: compressed });
-        idatInserted = true;
-      }
-      // skip subsequent IDAT chunks
+  if (response.status === 404 || response.status === 410) {
+    return { status: "missing" };
+  }
+  if (!response.ok) {
+    return { status: "error" };
+  }
+
+  try {
+    const page = await scrapePage(response, { stars: stars && hasStars(provider, path) });
+    const image = provider.extractImage(page) ?? (await provider.fetchApiImage?.(path)) ?? null;
+    if (!image) return { status: provider.pageAlwaysHasImage ? "error" : "missing" };
+    // Self-hosted forges sometimes emit root-relative image URLs
+    return { status: "found", url: new URL(image, pageUrl).href, meta: page.meta, fetched: Date.now() };
+  } catch {
+    return { status: "error" };
+  }
+};
+
+// github.com can also be asked through the API; other forges are always scraped
+const fetchOgImage = async (provider: Provider, path: string, env: Env, stars: boolean): Promise<ForgeResult> => {
+  const retryAfter = await takeUpstreamToken(env);
+  if (retryAfter) return { status: "error", retryAfter };
+
+  // The API only knows owners and repos; GitHub's other page types are always scraped
+  const page = provider.name === DEFAULT_HOST ? matchGitHubPage(path) : null;
+  const order: LookupStrategy[] = page?.type === "owner" || page?.type === "repo" ? parseLookupOrder(env) : ["scrape"];
+  let result: ForgeResult = { status: "error" };
+  // Fall through to the next strategy only on errors; a miss from either is authoritative
+  for (const strategy of order) {
+    if (strategy === "api" && env.GITHUB_TOKEN) {
+      const api = await fetchGitHubApiImage(path, env.GITHUB_TOKEN);
+      result = api.status === "found" ? { ...api, fetched: Date.now() } : api;
     } else {
-      newChunks.push(c);
+      result = await scrapeOgImage(provider, path, stars);
     }
+    if (result.status !== "error") return result;
   }
-
-  return buildPng(newChunks);
+  return result;
 };
 
-const buildPaddedImageResponse = async (
-  ogImageUrl: string,
-  ratioW: number,
-  ratioH: number,
-): Promise<Response> => {
-  try {
-    const imgResp = await fetch(ogImageUrl);
-    if (!imgResp.ok) return buildRedirectResponse(ogImageUrl);
+// Concurrent misses (and background refreshes) for one path share a single forge fetch
+const lookupsInFlight = createCoalescer<OgImageResult>();
 
-    const contentType = imgResp.headers.get("content-type") ?? "";
-    if (!contentType.includes("png")) return buildRedirectResponse(ogImageUrl);
+// Refreshes keep a path's generation; a new one starts when nothing is cached (after a purge) or when renewing
+const nextGeneration = async (key: string, renew: boolean, env: Env, ctx: ExecutionContext): Promise<number> => {
+  const previous = (await getCached(key, env, ctx))?.entry.generation ?? 0;
+  return previous && !renew ? previous : Math.max(Date.now(), previous + 1);
+};
 
-    const buf = new Uint8Array(await imgResp.arrayBuffer());
-    const padded = await padPng(buf, ratioW, ratioH);
-    if (!padded) return buildRedirectResponse(ogImageUrl);
+interface RefreshOptions {
+  renew?: boolean; // start a new generation
+  stars?: boolean; // scrape GitHub repo pages for the star count too
+}
 
-    return new Response(padded, {
-      headers: {
-        "Content-Type": "image/png",
-        ...cacheHeaders,
-      },
-    });
-  } catch {
-    return buildRedirectResponse(ogImageUrl);
-  }
+// Fetch from the forge and cache the result; upstream errors are never cached
+const refreshOgImage = (
+  provider: Provider,
+  path: string,
+  env: Env,
+  ctx: ExecutionContext,
+  { renew = false, stars = false }: RefreshOptions = {},
+): Promise<OgImageResult> => {
+  const key = lookupKey(provider, path);
+  return lookupsInFlight(key, async () => {
+    const result = await fetchOgImage(provider, path, env, stars);
+    recordUpstream(result.status, result.status === "error" && Boolean(result.retryAfter));
+    if (result.status !== "found") {
+      if (result.status === "missing") setCache(key, null, env, ctx);
+      return result;
+    }
+    const generation = await nextGeneration(key, renew, env, ctx);
+    setCache(key, result.url, env, ctx, { meta: result.meta, generation });
+    return { ...result, generation };
+  });
 };
 
-const getCached = (path: string): CacheEntry | null => {
-  const entry = memoryCache.get(path);
-  if (entry && Date.now() < entry.expires) {
-    return entry;
+// Entries written by older deploys have no generation
+const cachedResult = ({ entry, freshness: cache, layer }: CacheLookup): ResolvedOgImage =>
+  entry.url
+    ? {
+        status: "found",
+        url: entry.url,
+        meta: entry.meta ?? EMPTY_PAGE_META,
+        fetched: entry.fetched ?? null,
+        generation: entry.generation ?? 0,
+        cache,
+        layer,
+      }
+    : { status: "missing", cache, layer };
+
+// stars: the caller shows the star count, so a cached lookup that skipped it isn't enough
+const resolveOgImage = async (
+  provider: Provider,
+  path: string,
+  env: Env,
+  ctx: ExecutionContext,
+  stars = false,
+): Promise<ResolvedOgImage> => {
+  const cached = await getCached(lookupKey(provider, path), env, ctx);
+  const lacksStars = stars && cached?.entry.url && cached.entry.meta?.stars === undefined && hasStars(provider, path);
+  if (cached?.freshness === "fresh" && !lacksStars) return cachedResult(cached);
+
+  // Serve stale immediately and refresh in the background
+  if (cached?.freshness === "stale" && !lacksStars) {
+    ctx.waitUntil(refreshOgImage(provider, path, env, ctx, { stars }));
+    return cachedResult(cached);
   }
-  if (entry) {
-    memoryCache.delete(path);
+
+  const result = await refreshOgImage(provider, path, env, ctx, { stars });
+  // Stale-if-error: keep serving the last known image while the forge is failing
+  if (result.status === "error" && cached) return cachedResult(cached);
+  return { ...result, cache: "miss" };
+};
+
+// Concurrent logo lookups for one repo share a single search
+const logosInFlight = createCoalescer<OgImageResult>();
+
+// Like refreshOgImage, but a miss is cached as long as a find: a repo rarely gains a logo, and
+// ruling one out costs a listing, the README and the homepage
+const refreshLogo = (
+  provider: Provider,
+  path: string,
+  token: string,
+  env: Env,
+  ctx: ExecutionContext,
+  renew = false,
+): Promise<OgImageResult> => {
+  const key = lookupKey(provider, path) + LOGO_KEY_SUFFIX;
+  return logosInFlight(key, async () => {
+    if (await takeUpstreamToken(env)) return { status: "error" };
+    const result = await discoverLogo(path, token);
+    if (result.status !== "found") {
+      if (result.status === "missing") setCache(key, null, env, ctx, { ttl: CACHE_TTL_MS });
+      return result;
+    }
+    const generation = await nextGeneration(key, renew, env, ctx);
+    setCache(key, result.url, env, ctx, { generation });
+    return { status: "found", url: result.url, meta: EMPTY_PAGE_META, fetched: Date.now(), generation };
+  });
+};
+
+/**
+ * ?source=logo: the repo's own logo when one can be found, otherwise the
+ * og:image. Only github.com repos can be searched, and only with a token.
+ */
+const resolveLogo = async (
+  provider: Provider,
+  path: string,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<ResolvedOgImage> => {
+  const page = provider.name === DEFAULT_HOST ? matchGitHubPage(path) : null;
+  if (page?.type !== "repo" || !env.GITHUB_TOKEN) return resolveOgImage(provider, path, env, ctx);
+
+  const cached = await getCached(lookupKey(provider, path) + LOGO_KEY_SUFFIX, env, ctx);
+  let logo = cached && cached.freshness !== "expired" ? cached : null;
+  if (logo?.freshness === "stale") ctx.waitUntil(refreshLogo(provider, path, env.GITHUB_TOKEN, env, ctx));
+  if (!logo) {
+    const result = await refreshLogo(provider, path, env.GITHUB_TOKEN, env, ctx);
+    if (result.status === "found") return { ...result, cache: "miss" };
+    // Stale-if-error, as for og:images
+    if (result.status === "error") logo = cached;
   }
-  return null;
+  if (logo?.entry.url) return cachedResult(logo);
+  return resolveOgImage(provider, path, env, ctx);
 };
 
-const setCache = (path: string, url: string | null): void => {
-  const ttl = url ? CACHE_TTL_MS : CACHE_404_TTL_MS;
-  memoryCache.set(path, { url, expires: Date.now() + ttl });
+// custom: uploaded social preview; generated: GitHub's repo card; avatar: user or org picture
+type OgImageKind = "custom" | "generated" | "avatar" | "other";
+
+const OG_IMAGE_HOSTS: Record<string, OgImageKind> = {
+  "repository-images.githubusercontent.com": "custom",
+  "opengraph.githubassets.com": "generated",
+  "avatars.githubusercontent.com": "avatar",
+};
+
+const classifyByHost = (ogImageUrl: string): OgImageKind => {
+  try {
+    return OG_IMAGE_HOSTS[new URL(ogImageUrl).hostname] ?? "other";
+  } catch {
+    return "other";
+  }
 };
 
-const extractOgImage = (html: string): string | null => {
-  const match = html.match(OG_IMAGE_REGEX) ?? html.match(ALT_OG_IMAGE_REGEX);
-  return match?.[1] ? decodeHtmlEntities(match[1]) : null;
+// The API says whether a repo's image was uploaded; scraped lookups can only go by the image's host
+const classifyOgImage = ({ url, meta }: { url: string; meta: PageMeta }): OgImageKind => {
+  if (meta.customImage === undefined) return classifyByHost(url);
+  if (meta.customImage) return "custom";
+  // Not uploaded: GitHub's card, or the owner's avatar when the API had no card URL
+  return classifyByHost(url) === "avatar" ? "avatar" : "generated";
 };
 
-const fetchGitHubOgImage = async (path: string): Promise<string | null> => {
-  const response = await fetch(`https://github.com${path}`, {
-    headers: {
-      "User-Agent": "Mozilla/5.0 (compatible; ghlogo/1.0)",
-      Accept: "text/html",
-    },
-  });
+interface ImageProbe {
+  contentType: string | null;
+  width: number | null;
+  height: number | null;
+}
 
-  if (!response.ok) {
+// Downloads the image to report its real type and size; null if it can't be fetched
+const probeImage = async (ogImageUrl: string): Promise<ImageProbe | null> => {
+  try {
+    const imgResp = await fetchImage(ogImageUrl);
+    if (!imgResp.ok) return null;
+    const size = readImageSize(new Uint8Array(await imgResp.arrayBuffer()));
+    return {
+      contentType: imgResp.headers.get("Content-Type"),
+      width: size?.width ?? null,
+      height: size?.height ?? null,
+    };
+  } catch {
     return null;
   }
-
-  const html = await response.text();
-  return extractOgImage(html);
 };
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, HEAD, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, HEAD, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
 };
 
 const cacheHeaders = {
@@ -388,52 +439,492 @@ const noCacheHeaders = {
   ...corsHeaders,
 };
 
-const buildRedirectResponse = (url: string, status: 301 | 302 = 302): Response => {
+const buildRedirectResponse = (
+  url: string,
+  status: 301 | 302 = 302,
+  headers: Record<string, string> = cacheHeaders,
+): Response => {
   return new Response(null, {
     status,
     headers: {
       Location: url,
-      ...cacheHeaders,
+      ...headers,
     },
   });
 };
 
 const build404Response = (): Response => {
-  return new Response("Not found or no og:image available", {
+  return new Response(NOT_FOUND_MESSAGE, {
     status: 404,
     headers: { "Content-Type": "text/plain", ...noCacheHeaders },
   });
 };
 
-export default {
-  async fetch(request: Request): Promise<Response> {
-    const method = request.method.toUpperCase();
+// A spent upstream rate limit is our own overload, not the forge's, so it's a 503
+const buildUpstreamErrorResponse = (provider: Provider, retryAfter?: number): Response => {
+  return new Response(retryAfter ? UPSTREAM_LIMITED_MESSAGE : upstreamErrorMessage(provider), {
+    status: retryAfter ? 503 : 502,
+    headers: {
+      "Content-Type": "text/plain",
+      "Cache-Control": "no-store",
+      ...(retryAfter ? { "Retry-After": String(retryAfter) } : {}),
+      ...corsHeaders,
+    },
+  });
+};
+
+const buildRateLimitedResponse = (retryAfter: number): Response => {
+  return new Response("Too many requests, try again later", {
+    status: 429,
+    headers: { "Content-Type": "text/plain", "Retry-After": String(retryAfter), "Cache-Control": "no-store", ...corsHeaders },
+  });
+};
+
+// Streams an allowed image through the worker, passing conditional requests upstream
+const buildProxyResponse = async (
+  imageUrl: string,
+  request: Request,
+  headers: Record<string, string>,
+): Promise<Response> => {
+  const conditional: Record<string, string> = {};
+  for (const name of CONDITIONAL_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) conditional[name] = value;
+  }
 
-    // Handle CORS preflight
-    if (method === "OPTIONS") {
-      return new Response(null, { status: 204, headers: corsHeaders });
+  let upstream: Response;
+  try {
+    upstream = await fetchImage(imageUrl, conditional);
+  } catch {
+    return buildRedirectResponse(imageUrl, 302, headers);
+  }
+
+  const validators: Record<string, string> = {};
+  for (const name of VALIDATOR_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) validators[name] = value;
+  }
+
+  // Some hosts ignore If-None-Match, so check the ETag here too
+  if (upstream.status === 304 || (upstream.ok && etagMatches(conditional["If-None-Match"] ?? null, validators.ETag ?? null))) {
+    await upstream.body?.cancel();
+    return new Response(null, { status: 304, headers: { ...validators, ...PROXY_SECURITY_HEADERS, ...headers } });
+  }
+
+  // Only images are passed through; anything else falls back to the redirect
+  const contentType = upstream.headers.get("Content-Type");
+  if (!upstream.ok || !contentType?.startsWith("image/")) {
+    await upstream.body?.cancel();
+    return buildRedirectResponse(imageUrl, 302, headers);
+  }
+
+  const contentLength = upstream.headers.get("Content-Length");
+  return new Response(upstream.body, {
+    headers: {
+      "Content-Type": contentType,
+      ...(contentLength ? { "Content-Length": contentLength } : {}),
+      ...validators,
+      ...PROXY_SECURITY_HEADERS,
+      ...headers,
+    },
+  });
+};
+
+const buildBadRequestResponse = (message: string): Response => {
+  return new Response(message, {
+    status: 400,
+    headers: { "Content-Type": "text/plain", ...noCacheHeaders },
+  });
+};
+
+// JSON formats report a miss or upstream error the same way
+const buildJsonErrorResponse = (
+  provider: Provider,
+  path: string,
+  result: { status: "missing" } | { status: "error"; retryAfter?: number },
+): Response => {
+  if (result.status === "missing") {
+    return Response.json({ host: provider.name, path, error: NOT_FOUND_MESSAGE }, { status: 404, headers: noCacheHeaders });
+  }
+  const { retryAfter } = result;
+  return Response.json(
+    { host: provider.name, path, error: retryAfter ? UPSTREAM_LIMITED_MESSAGE : upstreamErrorMessage(provider) },
+    {
+      status: retryAfter ? 503 : 502,
+      headers: { "Cache-Control": "no-store", ...(retryAfter ? { "Retry-After": String(retryAfter) } : {}), ...corsHeaders },
+    },
+  );
+};
+
+// ?format=json: everything known about the lookup, without following the redirect
+const buildMetadataResponse = async (provider: Provider, path: string, result: ResolvedOgImage): Promise<Response> => {
+  if (result.status !== "found") return buildJsonErrorResponse(provider, path, result);
+
+  const image = await probeImage(result.url);
+  return Response.json(
+    {
+      host: provider.name,
+      path,
+      ogImage: result.url,
+      kind: classifyOgImage(result),
+      contentType: image?.contentType ?? null,
+      width: image?.width ?? null,
+      height: image?.height ?? null,
+      title: result.meta.title,
+      description: result.meta.description,
+      twitterImage: result.meta.twitterImage,
+      stars: result.meta.stars ?? null,
+      cache: {
+        status: result.cache,
+        age: result.fetched === null ? null : Math.max(0, Math.round((Date.now() - result.fetched) / 1000)),
+      },
+    },
+    // Short-lived: the cache age goes stale quickly
+    { headers: noCacheHeaders },
+  );
+};
+
+// Colours are read from a small thumbnail, which goes through the transform cache
+const COLOR_SAMPLE_SIZE = 64;
+
+const readImageColors = async (source: ImageSource, env: Env, ctx: ExecutionContext): Promise<ImageColors | null> => {
+  const options: TransformOptions = {
+    pad: null,
+    resize: { width: COLOR_SAMPLE_SIZE, height: COLOR_SAMPLE_SIZE, fit: "contain" },
+    mask: null,
+  };
+  try {
+    const thumbnail = await getTransformedImage(source, options, "png", env, ctx);
+    if (thumbnail.status === "encoded") {
+      const decoded = await decodeImage(thumbnail.body);
+      return decoded && extractColors(decoded);
     }
 
-    // Only allow GET and HEAD
-    if (method !== "GET" && method !== "HEAD") {
-      return new Response("Method not allowed", {
-        status: 405,
-        headers: { "Content-Type": "text/plain", ...corsHeaders },
-      });
+    // Already thumbnail-sized (or undecodable, in which case this returns null too)
+    const imgResp = await fetchImage(source.url);
+    if (!imgResp.ok) return null;
+    const decoded = await decodeImage(new Uint8Array(await imgResp.arrayBuffer()));
+    return decoded && extractColors(decoded);
+  } catch {
+    return null;
+  }
+};
+
+// ?format=colors: dominant colour, palette and edge tone, for tinting UI around the image
+const buildColorsResponse = async (
+  provider: Provider,
+  path: string,
+  result: ResolvedOgImage,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<Response> => {
+  if (result.status !== "found") return buildJsonErrorResponse(provider, path, result);
+
+  const colors = await readImageColors(result, env, ctx);
+  return Response.json(
+    { host: provider.name, path, ogImage: result.url, ...(colors ?? { dominant: null, palette: [], edges: null }) },
+    { headers: cacheHeaders },
+  );
+};
+
+// An owner's image stands in for its repos; for GitLab, a project's parent group
+const resolveOwnerAvatar = async (
+  provider: Provider,
+  path: string,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<ImageSource | null> => {
+  const parent = provider.parentPath(path);
+  if (!parent) return null;
+  const owner = await resolveOgImage(provider, parent, env, ctx);
+  return owner.status === "found" ? owner : null;
+};
+
+// "redirect" is a caller-supplied URL: never fetched by the worker, so never transformed or proxied
+type ResolvedFallback = { type: "url"; source: ImageSource } | { type: "redirect"; url: string } | { type: "image"; image: RawImage };
+
+// Walks the fallback chain; null when nothing in it applies
+const resolveFallback = async (
+  provider: Provider,
+  path: string,
+  options: FallbackOptions,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<ResolvedFallback | null> => {
+  const chain = options.preferCustom ? [{ type: "avatar" } as const, ...options.chain] : options.chain;
+  for (const fallback of chain) {
+    if (fallback.type === "url") return { type: "redirect", url: fallback.url };
+    if (fallback.type === "identicon") return { type: "image", image: await createIdenticon(lookupKey(provider, path)) };
+    if (fallback.type === "transparent") return { type: "image", image: createTransparentPixel() };
+    // Only repo paths have an owner whose avatar can stand in; an owner's own page already is its avatar
+    const avatar = await resolveOwnerAvatar(provider, path, env, ctx);
+    if (avatar) return { type: "url", source: avatar };
+  }
+  return null;
+};
+
+// Fallbacks stand in for a missing image that may appear later, so they get the short TTL
+const buildFallbackResponse = async (
+  fallback: ResolvedFallback,
+  transform: TransformOptions | null,
+  image: ImageContext,
+): Promise<Response> => {
+  if (fallback.type === "redirect") return buildRedirectResponse(fallback.url, 302, noCacheHeaders);
+  if (fallback.type === "url") {
+    return transform
+      ? buildTransformedImageResponse(fallback.source, transform, noCacheHeaders, image)
+      : image.serveOriginal(fallback.source.url, noCacheHeaders);
+  }
+  const generated = (transform && transformImage(fallback.image, transform)) ?? fallback.image;
+  const { format, body } = await encodeImage(generated, image.format);
+  return new Response(body, {
+    headers: { "Content-Type": CONTENT_TYPES[format], ...noCacheHeaders, ...(image.negotiated ? { Vary: "Accept" } : {}) },
+  });
+};
+
+// Inlined avatar for SVGs, downsized through the transform pipeline; null if it can't be fetched
+const fetchAvatarDataUri = async (
+  avatar: ImageSource,
+  size: number,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<string | null> => {
+  const options: TransformOptions = {
+    pad: null,
+    resize: { width: size, height: size, fit: "cover" },
+    mask: null,
+  };
+  try {
+    const image = await getTransformedImage(avatar, options, "png", env, ctx);
+    return image.status === "encoded" ? toPngDataUri(image.body) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Repo names may contain dots, so the full name is tried when the stripped repo doesn't exist.
+// Badges for existing repos therefore never look up the literal .svg path.
+const stripSvgSuffix = async (provider: Provider, rawPath: string, env: Env, ctx: ExecutionContext): Promise<string | null> => {
+  const stripped = rawPath.slice(0, -".svg".length);
+  const path = provider.normalizePath(stripped);
+  if (provider.isValidPath(path) && (await resolveOgImage(provider, path, env, ctx)).status !== "missing") return stripped;
+  const literal = provider.normalizePath(rawPath);
+  if (provider.isValidPath(literal) && (await resolveOgImage(provider, literal, env, ctx)).status === "found") return null;
+  return stripped;
+};
+
+const buildSvgResponse = async (
+  provider: Provider,
+  path: string,
+  options: SvgOptions,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<Response> => {
+  const result = await resolveOgImage(provider, path, env, ctx, options.style === "card");
+  if (result.status === "error") return buildUpstreamErrorResponse(provider, result.retryAfter);
+  if (result.status === "missing") return build404Response();
+
+  // An owner's own image is their avatar; repos show their owner's
+  const avatar = provider.parentPath(path) ? await resolveOwnerAvatar(provider, path, env, ctx) : result;
+  const size = options.style === "card" ? CARD_AVATAR_SIZE : BADGE_AVATAR_SIZE;
+  const data = {
+    name: displayName(path.slice(1), result.meta.title),
+    description: cleanDescription(result.meta.description),
+    stars: result.meta.stars ?? null,
+    avatar: avatar && (await fetchAvatarDataUri(avatar, size, env, ctx)),
+  };
+  const svg = options.style === "card" ? renderCard(data, options.theme) : renderBadge(data, options.theme);
+  return new Response(svg, {
+    headers: { "Content-Type": "image/svg+xml; charset=utf-8", ...cacheHeaders },
+  });
+};
+
+// Batch and admin paths may omit the leading slash
+const toLookupPath = (provider: Provider, input: string): string =>
+  provider.normalizePath(trimPath(`/${input.replace(/^\/+/, "")}`));
+
+const lookupBatchEntry = async (
+  provider: Provider,
+  input: string,
+  env: Env,
+  ctx: ExecutionContext,
+): Promise<BatchEntry> => {
+  const path = toLookupPath(provider, input);
+  if (!provider.isValidPath(path)) return { error: INVALID_PATH_MESSAGE };
+  const result = await resolveOgImage(provider, path, env, ctx);
+  if (result.status === "found") return { url: result.url };
+  if (result.status === "missing") return { error: NOT_FOUND_MESSAGE };
+  return { error: result.retryAfter ? UPSTREAM_LIMITED_MESSAGE : upstreamErrorMessage(provider) };
+};
+
+const readBatchPaths = async (request: Request, url: URL): Promise<BatchPaths> => {
+  if (request.method.toUpperCase() !== "POST") return parseBatchQuery(url.searchParams.get("paths") ?? "");
+  try {
+    return parseBatchBody(await request.json());
+  } catch {
+    return parseBatchBody(null);
+  }
+};
+
+const buildBatchResponse = async (request: Request, url: URL, env: Env, ctx: ExecutionContext): Promise<Response> => {
+  const provider = resolveProvider(url.searchParams.get("host"), env);
+  if (!provider) return buildBadRequestResponse(INVALID_HOST_MESSAGE);
+  const batch = await readBatchPaths(request, url);
+  if (batch.status === "invalid") return buildBadRequestResponse(batch.message);
+  const retryAfter = await takeClientTokens(request, env, batch.paths.length);
+  if (retryAfter) return buildRateLimitedResponse(retryAfter);
+  const results = await runBatch(batch.paths, (input) => lookupBatchEntry(provider, input, env, ctx));
+  return Response.json(results, { headers: noCacheHeaders });
+};
+
+type WarmEntry = { url: string | null; previous: string | null; changed: boolean } | { error: string };
+
+/**
+ * Re-resolves a path from the forge, replacing whatever the cache layers hold.
+ * renew also starts a new generation, so transformed images are rendered
+ * again, and re-resolves the path's logo if one has been looked up.
+ */
+const warmPath = async (
+  provider: Provider,
+  input: string,
+  env: Env,
+  ctx: ExecutionContext,
+  renew: boolean,
+): Promise<WarmEntry> => {
+  const path = toLookupPath(provider, input);
+  if (!provider.isValidPath(path)) return { error: INVALID_PATH_MESSAGE };
+  const previous = (await getCached(lookupKey(provider, path), env, ctx))?.entry.url ?? null;
+  const result = await refreshOgImage(provider, path, env, ctx, { renew });
+  if (result.status === "error") return { error: result.retryAfter ? UPSTREAM_LIMITED_MESSAGE : upstreamErrorMessage(provider) };
+  if (renew && env.GITHUB_TOKEN && (await getCached(lookupKey(provider, path) + LOGO_KEY_SUFFIX, env, ctx))) {
+    await refreshLogo(provider, path, env.GITHUB_TOKEN, env, ctx, true);
+  }
+  const url = result.status === "found" ? result.url : null;
+  return { url, previous, changed: url !== previous };
+};
+
+const buildWarmResponse = async (request: Request, url: URL, env: Env, ctx: ExecutionContext): Promise<Response> => {
+  const provider = resolveProvider(url.searchParams.get("host"), env);
+  if (!provider) return buildBadRequestResponse(INVALID_HOST_MESSAGE);
+  const batch = await readBatchPaths(request, url);
+  if (batch.status === "invalid") return buildBadRequestResponse(batch.message);
+  const results = await runBatch(batch.paths, (input) => warmPath(provider, input, env, ctx, true));
+  return Response.json(results, { headers: noCacheHeaders });
+};
+
+const buildPurgeResponse = async (request: Request, url: URL, env: Env): Promise<Response> => {
+  const provider = resolveProvider(url.searchParams.get("host"), env);
+  if (!provider) return buildBadRequestResponse(INVALID_HOST_MESSAGE);
+  let body: unknown = null;
+  try {
+    body = await request.json();
+  } catch {
+    // Reported as an invalid body below
+  }
+  const parsed = parsePurgeBody(body);
+  if (parsed.status === "invalid") return buildBadRequestResponse(parsed.message);
+
+  const paths = parsed.purge.paths.map((input) => toLookupPath(provider, input));
+  const prefix = parsed.purge.prefix === null ? null : toLookupPath(provider, parsed.purge.prefix);
+  if (![...paths, ...(prefix ? [prefix] : [])].every((path) => provider.isValidPath(path))) {
+    return buildBadRequestResponse(INVALID_PATH_MESSAGE);
+  }
+
+  // Reported without the cache key's ~host prefix, as the caller wrote them. A path's logo goes with it, and
+  // without an entry the next lookup starts a new generation, so transformed images are rendered again
+  const keyPrefix = lookupKey(provider, "");
+  const keys = new Set(paths.map((path) => lookupKey(provider, path)));
+  if (prefix) {
+    for (const key of await listCachedPaths(lookupKey(provider, prefix), env)) {
+      keys.add(key.endsWith(LOGO_KEY_SUFFIX) ? key.slice(0, -LOGO_KEY_SUFFIX.length) : key);
     }
+  }
+  const unique = [...keys];
+  const found = await mapConcurrent(unique, BATCH_CONCURRENCY, async (key) => {
+    const deleted = await Promise.all([deleteCached(key, env), deleteCached(key + LOGO_KEY_SUFFIX, env)]);
+    return deleted.some(Boolean);
+  });
+  return Response.json(
+    {
+      host: provider.name,
+      purged: unique.filter((_, i) => found[i]).map((key) => key.slice(keyPrefix.length)),
+      notCached: unique.filter((_, i) => !found[i]).map((key) => key.slice(keyPrefix.length)),
+    },
+    { headers: noCacheHeaders },
+  );
+};
+
+// null when the request may go ahead
+const buildAdminAuthResponse = async (request: Request, env: Env): Promise<Response | null> => {
+  const auth = await checkAdminAuth(request, env);
+  if (auth === "disabled") return new Response("Not found", { status: 404, headers: { "Content-Type": "text/plain" } });
+  if (auth === "unauthorized") {
+    return new Response("Unauthorized", {
+      status: 401,
+      headers: { "Content-Type": "text/plain", "WWW-Authenticate": "Bearer", "Cache-Control": "no-store" },
+    });
+  }
+  return null;
+};
 
-    const url = new URL(request.url);
-    const rawPath = url.pathname;
-    const path = normalizePath(rawPath);
+const buildAdminResponse = async (request: Request, url: URL, env: Env, ctx: ExecutionContext): Promise<Response> => {
+  const denied = await buildAdminAuthResponse(request, env);
+  if (denied) return denied;
+  return url.pathname === "/admin/purge" ? buildPurgeResponse(request, url, env) : buildWarmResponse(request, url, env, ctx);
+};
 
-    // Parse optional ratio param
-    const ratioParam = url.searchParams.get("ratio");
-    const ratio = ratioParam ? ALLOWED_RATIOS[ratioParam] ?? null : null;
+// GET /stats: this isolate's counters since it started; other isolates keep their own
+const buildStatsResponse = async (request: Request, env: Env): Promise<Response> => {
+  const denied = await buildAdminAuthResponse(request, env);
+  if (denied) return denied;
+  return Response.json(getStats({ entries: memoryCacheSize(), max: MAX_MEMORY_ENTRIES }), {
+    headers: { "Cache-Control": "no-store" },
+  });
+};
+
+const handleRequest = async (request: Request, env: Env, ctx: ExecutionContext, metrics: RequestMetrics): Promise<Response> => {
+  const method = request.method.toUpperCase();
+
+  // Handle CORS preflight
+  if (method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
 
-    // Root path returns interactive landing page
-    if (path === "/") {
-      const baseUrl = url.origin;
-      const html = `<!DOCTYPE html>
+  const url = new URL(request.url);
+  const rawPath = trimPath(url.pathname);
+  const route = rawPath.toLowerCase();
+
+  // Admin routes are POST only, so GET /admin is still the "admin" account
+  if (method === "POST" && (route === "/admin/purge" || route === "/admin/warm")) {
+    return buildAdminResponse(request, url, env, ctx);
+  }
+
+  // Only requests with an Authorization header are the stats endpoint, so GET /stats is still the "stats" account
+  if (method === "GET" && route === "/stats" && request.headers.has("Authorization")) {
+    return buildStatsResponse(request, env);
+  }
+
+  // POST /batch, or GET /batch?paths=...; a plain GET /batch is still the "batch" account
+  if (route === "/batch" && (method === "POST" || url.searchParams.has("paths"))) {
+    return buildBatchResponse(request, url, env, ctx);
+  }
+
+  // With RATE_LIMIT set, every other request spends one token from the client's bucket
+  const retryAfter = await takeClientTokens(request, env);
+  if (retryAfter) return buildRateLimitedResponse(retryAfter);
+
+  // Only allow GET and HEAD
+  if (method !== "GET" && method !== "HEAD") {
+    return new Response("Method not allowed", {
+      status: 405,
+      headers: { "Content-Type": "text/plain", ...corsHeaders },
+    });
+  }
+
+  // Root path returns interactive landing page
+  if (route === "/") {
+    const baseUrl = url.origin;
+    const html = `<!DOCTYPE html>
 <html><head>
 <meta charset="utf-8">
 <meta name="viewport" content="width=device-width, initial-scale=1">
@@ -657,37 +1148,108 @@ export default {
 </script>
 </body>
 </html>`;
-      const response = new Response(method === "HEAD" ? null : html, {
-        headers: { "Content-Type": "text/html", ...cacheHeaders },
-      });
-      return response;
-    }
+    const response = new Response(method === "HEAD" ? null : html, {
+      headers: { "Content-Type": "text/html", ...cacheHeaders },
+    });
+    return response;
+  }
 
-    // Validate path format: /owner or /owner/repo
-    const segments = path.split("/").filter(Boolean);
-    if (segments.length < 1 || segments.length > 2) {
-      return new Response("Invalid path. Use /{owner} or /{owner}/{repo}", {
-        status: 400,
-        headers: { "Content-Type": "text/plain", ...noCacheHeaders },
-      });
-    }
+  // ?host= picks the forge; GitHub when absent
+  const provider = resolveProvider(url.searchParams.get("host"), env);
+  if (!provider) return buildBadRequestResponse(INVALID_HOST_MESSAGE);
+  const format = url.searchParams.get("format");
+  if (format !== null && !["json", "colors", "svg", "png", "webp"].includes(format)) {
+    return buildBadRequestResponse("Invalid format. Use json, colors, svg, png or webp");
+  }
 
-    // Check in-memory cache
-    const memoryCached = getCached(path);
-    if (memoryCached) {
-      if (!memoryCached.url) return build404Response();
-      if (ratio) return buildPaddedImageResponse(memoryCached.url, ratio[0], ratio[1]);
-      return buildRedirectResponse(memoryCached.url);
-    }
+  // ?format=svg, or /{owner}/{repo}.svg, renders a badge or card instead of serving the image
+  const svgPath = format === "svg" ? rawPath : route.endsWith(".svg") ? await stripSvgSuffix(provider, rawPath, env, ctx) : null;
+  if (svgPath !== null) {
+    const lookupPath = provider.normalizePath(svgPath);
+    if (!provider.isValidPath(lookupPath)) return buildBadRequestResponse(INVALID_PATH_MESSAGE);
+    const svg = parseSvgOptions(url.searchParams);
+    if (svg.status === "invalid") return buildBadRequestResponse(svg.message);
+    return buildSvgResponse(provider, lookupPath, svg.options, env, ctx);
+  }
 
-    // Fetch from GitHub
-    const ogImage = await fetchGitHubOgImage(path);
+  // Validate path format: /owner or /owner/repo, GitHub's other page types, or GitLab's nested groups
+  const path = provider.normalizePath(rawPath);
+  if (!provider.isValidPath(path)) return buildBadRequestResponse(INVALID_PATH_MESSAGE);
+  // ?format=png or webp picks the encoding of transformed images; otherwise Accept does
+  const negotiated = format !== "png" && format !== "webp";
+  const output: OutputFormat = !negotiated ? format : acceptsWebp(request.headers.get("Accept")) ? "webp" : "png";
+
+  // Parse optional transform params: ratio, bg, fill, align, w, h, fit, dpr, shape, radius
+  const transform = parseTransformOptions(url.searchParams);
+  if (transform.status === "invalid") return buildBadRequestResponse(transform.message);
+
+  // ?proxy=1 streams allowed images instead of redirecting to them
+  const proxy = parseProxyParam(url.searchParams);
+  if (proxy.status === "invalid") return buildBadRequestResponse(proxy.message);
+  const serveOriginal: ServeImage =
+    proxy.status === "ok"
+      ? async (imageUrl, headers) =>
+          isProxyAllowed(imageUrl, provider, env)
+            ? buildProxyResponse(imageUrl, request, headers)
+            : buildRedirectResponse(imageUrl, 302, headers)
+      : redirectToImage;
+  const image: ImageContext = { request, env, ctx, serveOriginal, metrics, format: output, negotiated };
+
+  // Parse optional fallback params: fallback, prefer
+  const fallback = parseFallbackOptions(url.searchParams);
+  if (fallback.status === "invalid") return buildBadRequestResponse(fallback.message);
+
+  // ?source=logo looks for the project's own logo before its og:image
+  const source = parseSourceParam(url.searchParams);
+  if (source.status === "invalid") return buildBadRequestResponse(source.message);
+
+  // Check the cache layers, falling back to the forge
+  const result =
+    source.status === "ok"
+      ? await resolveLogo(provider, path, env, ctx)
+      : await resolveOgImage(provider, path, env, ctx, format === "json");
+  recordLookup(metrics, lookupKey(provider, path) + (source.status === "ok" ? LOGO_KEY_SUFFIX : ""), result);
+
+  if (format === "json") return buildMetadataResponse(provider, path, result);
+  if (format === "colors") return buildColorsResponse(provider, path, result, env, ctx);
+  if (result.status === "error") return buildUpstreamErrorResponse(provider, result.retryAfter);
+
+  // No image at all, or only GitHub's generated card when a custom one is preferred
+  const wantsFallback =
+    fallback.status === "ok" &&
+    (result.status === "missing" || (fallback.options.preferCustom && classifyOgImage(result) === "generated"));
+  if (wantsFallback) {
+    const resolved = await resolveFallback(provider, path, fallback.options, env, ctx);
+    if (resolved) {
+      return buildFallbackResponse(resolved, transform.status === "ok" ? transform.options : null, image);
+    }
+  }
+  if (result.status === "missing") return build404Response();
+  if (transform.status === "ok") {
+    return buildTransformedImageResponse(result, transform.options, cacheHeaders, image);
+  }
+  return serveOriginal(result.url, cacheHeaders);
+};
 
-    // Cache the result (including 404s)
-    setCache(path, ogImage);
+export default {
+  // Every request is timed and logged, whichever branch answers it
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+    const metrics = createRequestMetrics(request, new URL(request.url));
+    const response = await handleRequest(request, env, ctx, metrics);
+    finishRequest(metrics, response, env);
+    return response;
+  },
 
-    if (!ogImage) return build404Response();
-    if (ratio) return buildPaddedImageResponse(ogImage, ratio[0], ratio[1]);
-    return buildRedirectResponse(ogImage);
+  // Cron trigger: re-resolves WARM_PATHS so they never wait on a cold or stale lookup
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    const targets = parseWarmPaths(env);
+    const results = await mapConcurrent(targets, BATCH_CONCURRENCY, async ({ host, path }): Promise<WarmEntry> => {
+      const provider = resolveProvider(host, env);
+      // Unlike /admin/warm, keeps generations, so the schedule doesn't throw away transformed images
+      return provider ? warmPath(provider, path, env, ctx, false) : { error: INVALID_HOST_MESSAGE };
+    });
+    const failed = results.filter((entry) => "error" in entry).length;
+    const changed = results.filter((entry) => "changed" in entry && entry.changed).length;
+    console.log(`Warmed ${targets.length - failed} paths (${changed} changed, ${failed} failed)`);
   },
-} satisfies ExportedHandler;
+} satisfies ExportedHandler<Env>;
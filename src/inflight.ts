@@ -0,0 +1,19 @@
+/**
+ * In-flight request coalescing.
+ * Concurrent callers with the same key share one pending promise instead of
+ * each repeating the upstream fetch. Only plain data should be shared this
+ * way: a Response body can only be read by one request.
+ */
+
+export type Coalescer<T> = (key: string, run: () => Promise<T>) => Promise<T>;
+
+export const createCoalescer = <T>(): Coalescer<T> => {
+  const inFlight = new Map<string, Promise<T>>();
+  return (key, run) => {
+    const pending = inFlight.get(key);
+    if (pending) return pending;
+    const promise = run().finally(() => inFlight.delete(key));
+    inFlight.set(key, promise);
+    return promise;
+  };
+};
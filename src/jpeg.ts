@@ -0,0 +1,594 @@
+/**
+ * JPEG decoder.
+ * Handles baseline, extended and progressive Huffman-coded JPEGs with any
+ * chroma subsampling and restart intervals, for grayscale, YCbCr/RGB and
+ * Adobe CMYK/YCCK images. Arithmetic coding and lossless JPEG are rejected.
+ */
+
+import { MAX_DECODED_PIXELS, createImage, type RawImage } from "./image";
+
+// Maps zigzag scan order to natural row-major coefficient order
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21,
+  28, 35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61,
+  54, 47, 55, 62, 63,
+]);
+
+// IDCT basis: IDCT_BASIS[u * 8 + x] = C(u) / 2 * cos((2x + 1) * u * pi / 16)
+const IDCT_BASIS = (() => {
+  const t = new Float32Array(64);
+  for (let u = 0; u < 8; u++) {
+    const cu = u === 0 ? Math.SQRT1_2 : 1;
+    for (let x = 0; x < 8; x++) t[u * 8 + x] = (cu / 2) * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+  return t;
+})();
+
+interface HuffmanTable {
+  maxCode: Int32Array; // largest code of each length, -1 when none
+  valPtr: Int32Array; // index into values of the first code of each length
+  minCode: Int32Array;
+  values: Uint8Array;
+}
+
+interface Component {
+  id: number;
+  h: number;
+  v: number;
+  tq: number;
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  stride: number; // blocks per line, padded to whole MCUs
+  coefficients: Int32Array; // 64 per block, natural order
+  pred: number;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+}
+
+interface Frame {
+  width: number;
+  height: number;
+  progressive: boolean;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: Component[];
+}
+
+const buildHuffmanTable = (counts: Uint8Array, values: Uint8Array): HuffmanTable => {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valPtr = new Int32Array(17);
+  const minCode = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let len = 1; len <= 16; len++) {
+    const n = counts[len - 1];
+    if (n) {
+      valPtr[len] = k;
+      minCode[len] = code;
+      code += n;
+      k += n;
+      maxCode[len] = code - 1;
+    }
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff; // sentinel so decoding always terminates
+  return { maxCode, valPtr, minCode, values };
+};
+
+interface BitReader {
+  pos: number;
+  readBit: () => number;
+  receive: (length: number) => number;
+  receiveExtend: (length: number) => number;
+  decode: (table: HuffmanTable | undefined) => number;
+  reset: () => void;
+}
+
+/**
+ * Entropy-coded segment reader. 0xFF00 is an escaped 0xFF; any other
+ * marker ends the segment and yields zero bits from then on.
+ */
+const createBitReader = (data: Uint8Array, start: number): BitReader => {
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const reader: BitReader = {
+    pos: start,
+
+    readBit: () => {
+      if (bitCount === 0) {
+        const byte = data[reader.pos];
+        if (byte === undefined) {
+          bitBuffer = 0;
+        } else if (byte === 0xff) {
+          if (data[reader.pos + 1] === 0) {
+            reader.pos += 2;
+            bitBuffer = 0xff;
+          } else {
+            bitBuffer = 0; // marker: leave it for the caller
+          }
+        } else {
+          reader.pos++;
+          bitBuffer = byte;
+        }
+        bitCount = 8;
+      }
+      bitCount--;
+      return (bitBuffer >> bitCount) & 1;
+    },
+
+    receive: (length) => {
+      let n = 0;
+      for (let i = 0; i < length; i++) n = (n << 1) | reader.readBit();
+      return n;
+    },
+
+    receiveExtend: (length) => {
+      if (length === 0) return 0;
+      if (length === 1) return reader.readBit() ? 1 : -1;
+      const n = reader.receive(length);
+      return n >= 1 << (length - 1) ? n : n - (1 << length) + 1;
+    },
+
+    decode: (table) => {
+      if (!table) throw new Error("missing Huffman table");
+      let code = reader.readBit();
+      let len = 1;
+      while (code > table.maxCode[len]) {
+        code = (code << 1) | reader.readBit();
+        len++;
+      }
+      if (len > 16) throw new Error("bad Huffman code");
+      return table.values[table.valPtr[len] + code - table.minCode[len]];
+    },
+
+    // Drop buffered bits and step to the next marker
+    reset: () => {
+      bitCount = 0;
+      while (reader.pos < data.length) {
+        const next = data[reader.pos + 1];
+        if (data[reader.pos] === 0xff && next !== 0 && next !== 0xff) return;
+        reader.pos++;
+      }
+    },
+  };
+  return reader;
+};
+
+interface ScanParams {
+  ss: number; // spectral selection start
+  se: number; // spectral selection end
+  ah: number; // successive approximation high bit
+  al: number; // successive approximation low bit
+}
+
+type BlockDecoder = (reader: BitReader, component: Component, offset: number) => void;
+
+const createBlockDecoder = (frame: Frame, scan: ScanParams, eob: { run: number }): BlockDecoder => {
+  const { ss, se, ah, al } = scan;
+
+  if (!frame.progressive) {
+    return (reader, c, offset) => {
+      const t = reader.decode(c.dcTable);
+      c.pred += reader.receiveExtend(t);
+      c.coefficients[offset] = c.pred;
+      for (let k = 1; k < 64; ) {
+        const rs = reader.decode(c.acTable);
+        const s = rs & 15;
+        const r = rs >> 4;
+        if (s === 0) {
+          if (r < 15) break;
+          k += 16;
+          continue;
+        }
+        k += r;
+        if (k > 63) break;
+        c.coefficients[offset + ZIGZAG[k++]] = reader.receiveExtend(s);
+      }
+    };
+  }
+
+  if (ss === 0) {
+    // DC scans; first pass decodes the value, refinements add one bit
+    return ah === 0
+      ? (reader, c, offset) => {
+          const t = reader.decode(c.dcTable);
+          c.pred += reader.receiveExtend(t);
+          c.coefficients[offset] = c.pred * (1 << al);
+        }
+      : (reader, c, offset) => {
+          if (reader.readBit()) c.coefficients[offset] |= 1 << al;
+        };
+  }
+
+  if (ah === 0) {
+    return (reader, c, offset) => {
+      if (eob.run > 0) {
+        eob.run--;
+        return;
+      }
+      for (let k = ss; k <= se; ) {
+        const rs = reader.decode(c.acTable);
+        const s = rs & 15;
+        const r = rs >> 4;
+        if (s === 0) {
+          if (r < 15) {
+            eob.run = (1 << r) - 1 + (r ? reader.receive(r) : 0);
+            break;
+          }
+          k += 16;
+          continue;
+        }
+        k += r;
+        if (k > 63) break;
+        c.coefficients[offset + ZIGZAG[k++]] = reader.receiveExtend(s) * (1 << al);
+      }
+    };
+  }
+
+  // AC refinement: one correction bit for each already-nonzero coefficient
+  const bit = 1 << al;
+  const refine = (reader: BitReader, coefficients: Int32Array, i: number): void => {
+    if (reader.readBit() && (coefficients[i] & bit) === 0) coefficients[i] += coefficients[i] > 0 ? bit : -bit;
+  };
+  return (reader, c, offset) => {
+    const coefficients = c.coefficients;
+    let k = ss;
+    if (eob.run > 0) {
+      eob.run--;
+      for (; k <= se; k++) {
+        const i = offset + ZIGZAG[k];
+        if (coefficients[i] !== 0) refine(reader, coefficients, i);
+      }
+      return;
+    }
+    while (k <= se) {
+      const rs = reader.decode(c.acTable);
+      let s = rs & 15;
+      let r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eob.run = (1 << r) - 1 + (r ? reader.receive(r) : 0);
+          r = 64; // refine the rest of this block, then stop
+        }
+        // r === 15: skip 16 zero coefficients
+      } else {
+        s = reader.readBit() ? bit : -bit;
+      }
+      while (k <= se) {
+        const i = offset + ZIGZAG[k++];
+        if (coefficients[i] !== 0) {
+          refine(reader, coefficients, i);
+        } else {
+          if (r === 0) {
+            if (s) coefficients[i] = s;
+            break;
+          }
+          r--;
+        }
+      }
+    }
+  };
+};
+
+const decodeScan = (
+  data: Uint8Array,
+  pos: number,
+  frame: Frame,
+  components: Component[],
+  restartInterval: number,
+  scan: ScanParams,
+): number => {
+  const reader = createBitReader(data, pos);
+  const eob = { run: 0 };
+  const decodeBlock = createBlockDecoder(frame, scan, eob);
+
+  // A single-component scan is not interleaved: one block per MCU, no padding
+  const single = components.length === 1 ? components[0] : null;
+  const totalMcus = single ? single.blocksPerLine * single.blocksPerColumn : frame.mcusPerLine * frame.mcusPerColumn;
+
+  for (const c of components) c.pred = 0;
+
+  for (let mcu = 0; mcu < totalMcus; mcu++) {
+    if (restartInterval && mcu > 0 && mcu % restartInterval === 0) {
+      reader.reset();
+      const marker = (data[reader.pos] << 8) | data[reader.pos + 1];
+      if (marker >= 0xffd0 && marker <= 0xffd7) reader.pos += 2;
+      for (const c of components) c.pred = 0;
+      eob.run = 0;
+    }
+
+    if (single) {
+      const row = Math.floor(mcu / single.blocksPerLine);
+      const col = mcu % single.blocksPerLine;
+      decodeBlock(reader, single, (row * single.stride + col) * 64);
+      continue;
+    }
+
+    const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+    const mcuCol = mcu % frame.mcusPerLine;
+    for (const c of components) {
+      for (let v = 0; v < c.v; v++) {
+        for (let h = 0; h < c.h; h++) {
+          const row = mcuRow * c.v + v;
+          const col = mcuCol * c.h + h;
+          decodeBlock(reader, c, (row * c.stride + col) * 64);
+        }
+      }
+    }
+  }
+
+  reader.reset();
+  return reader.pos;
+};
+
+// Dequantizes and inverse-transforms every block into an 8-bit sample plane
+const buildComponentPlane = (c: Component, quant: Int32Array): Uint8Array => {
+  const lineWidth = c.stride * 8;
+  const rows = c.coefficients.length / 64 / c.stride;
+  const plane = new Uint8Array(lineWidth * rows * 8);
+  const block = new Float32Array(64);
+  const tmp = new Float32Array(64);
+
+  for (let b = 0; b < c.coefficients.length / 64; b++) {
+    const offset = b * 64;
+    for (let i = 0; i < 64; i++) block[i] = c.coefficients[offset + i] * quant[i];
+
+    // Rows: tmp[y][x] = sum_u basis[u][x] * block[y][u]
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        let sum = 0;
+        for (let u = 0; u < 8; u++) sum += IDCT_BASIS[u * 8 + x] * block[y * 8 + u];
+        tmp[y * 8 + x] = sum;
+      }
+    }
+    // Columns, level shift and clamp into the plane
+    const bx = (b % c.stride) * 8;
+    const by = Math.floor(b / c.stride) * 8;
+    for (let x = 0; x < 8; x++) {
+      for (let y = 0; y < 8; y++) {
+        let sum = 0;
+        for (let v = 0; v < 8; v++) sum += IDCT_BASIS[v * 8 + y] * tmp[v * 8 + x];
+        const value = Math.round(sum + 128);
+        plane[(by + y) * lineWidth + bx + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+      }
+    }
+  }
+  return plane;
+};
+
+const clamp8 = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+
+const toRgba = (
+  frame: Frame,
+  planes: Uint8Array[],
+  adobeTransform: number | null,
+): RawImage => {
+  const { width, height, components, maxH, maxV } = frame;
+  const image = createImage(width, height);
+  const out = image.data;
+  const n = components.length;
+  const samples = new Float32Array(4);
+
+  // Without an Adobe marker, 3-component images are YCbCr unless tagged R/G/B
+  const isRgbIds = n === 3 && components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42;
+  const transform = adobeTransform ?? (n === 3 ? (isRgbIds ? 0 : 1) : 0);
+
+  // Subsampled planes are read through a bilinear filter between sample
+  // centres, like libjpeg's "fancy" upsampling, clamped at the plane's edge
+  const readers = components.map((c, i) => {
+    const plane = planes[i];
+    const lineWidth = c.stride * 8;
+    if (c.h === maxH && c.v === maxV) return (x: number, y: number) => plane[y * lineWidth + x];
+    const lastX = Math.ceil((width * c.h) / maxH) - 1;
+    const lastY = Math.ceil((height * c.v) / maxV) - 1;
+    return (x: number, y: number) => {
+      const fx = Math.min(Math.max(((x + 0.5) * c.h) / maxH - 0.5, 0), lastX);
+      const fy = Math.min(Math.max(((y + 0.5) * c.v) / maxV - 0.5, 0), lastY);
+      const [x0, y0] = [Math.floor(fx), Math.floor(fy)];
+      const [x1, y1] = [Math.min(x0 + 1, lastX), Math.min(y0 + 1, lastY)];
+      const [wx, wy] = [fx - x0, fy - y0];
+      const top = plane[y0 * lineWidth + x0] * (1 - wx) + plane[y0 * lineWidth + x1] * wx;
+      const bottom = plane[y1 * lineWidth + x0] * (1 - wx) + plane[y1 * lineWidth + x1] * wx;
+      return top * (1 - wy) + bottom * wy;
+    };
+  });
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let i = 0; i < n; i++) samples[i] = readers[i](x, y);
+      const o = (y * width + x) * 4;
+      if (n === 1) {
+        out[o] = out[o + 1] = out[o + 2] = clamp8(samples[0]);
+      } else if (n === 3) {
+        if (transform) {
+          const [yy, cb, cr] = [samples[0], samples[1] - 128, samples[2] - 128];
+          out[o] = clamp8(yy + 1.402 * cr);
+          out[o + 1] = clamp8(yy - 0.344136 * cb - 0.714136 * cr);
+          out[o + 2] = clamp8(yy + 1.772 * cb);
+        } else {
+          out[o] = clamp8(samples[0]);
+          out[o + 1] = clamp8(samples[1]);
+          out[o + 2] = clamp8(samples[2]);
+        }
+      } else {
+        let [c0, c1, c2] = [samples[0], samples[1], samples[2]];
+        if (transform === 2) {
+          // YCCK: convert the YCC part to (inverted) CMY first
+          const cb = c1 - 128;
+          const cr = c2 - 128;
+          [c0, c1, c2] = [
+            255 - clamp8(c0 + 1.402 * cr),
+            255 - clamp8(c0 - 0.344136 * cb - 0.714136 * cr),
+            255 - clamp8(c0 + 1.772 * cb),
+          ];
+        }
+        // Adobe CMYK is stored inverted; plain CMYK is not
+        const inverted = adobeTransform !== null;
+        const k = inverted ? samples[3] : 255 - samples[3];
+        const cmy = inverted ? [c0, c1, c2] : [255 - c0, 255 - c1, 255 - c2];
+        out[o] = clamp8((cmy[0] * k) / 255);
+        out[o + 1] = clamp8((cmy[1] * k) / 255);
+        out[o + 2] = clamp8((cmy[2] * k) / 255);
+      }
+      out[o + 3] = 255;
+    }
+  }
+  return image;
+};
+
+const parseFrame = (data: Uint8Array, progressive: boolean): Frame => {
+  if (data[0] !== 8) throw new Error("only 8-bit precision is supported");
+  const height = (data[1] << 8) | data[2];
+  const width = (data[3] << 8) | data[4];
+  const count = data[5];
+  if (!width || !height) throw new Error("missing image dimensions");
+  if (width * height > MAX_DECODED_PIXELS) throw new Error("image too large");
+  if (count !== 1 && count !== 3 && count !== 4) throw new Error("unsupported component count");
+
+  const raw: { id: number; h: number; v: number; tq: number }[] = [];
+  for (let i = 0; i < count; i++) {
+    const p = 6 + i * 3;
+    raw.push({ id: data[p], h: data[p + 1] >> 4 || 1, v: data[p + 1] & 15 || 1, tq: data[p + 2] & 3 });
+  }
+  const maxH = Math.max(...raw.map((c) => c.h));
+  const maxV = Math.max(...raw.map((c) => c.v));
+  const mcusPerLine = Math.ceil(width / (8 * maxH));
+  const mcusPerColumn = Math.ceil(height / (8 * maxV));
+
+  const components = raw.map((c): Component => {
+    const stride = mcusPerLine * c.h;
+    return {
+      ...c,
+      blocksPerLine: Math.ceil(Math.ceil((width * c.h) / maxH) / 8),
+      blocksPerColumn: Math.ceil(Math.ceil((height * c.v) / maxV) / 8),
+      stride,
+      coefficients: new Int32Array(stride * mcusPerColumn * c.v * 64),
+      pred: 0,
+    };
+  });
+
+  return { width, height, progressive, maxH, maxV, mcusPerLine, mcusPerColumn, components };
+};
+
+export const isJpeg = (buf: Uint8Array): boolean => buf.length > 3 && buf[0] === 0xff && buf[1] === 0xd8 && buf[2] === 0xff;
+
+export const decodeJpeg = (buf: Uint8Array): RawImage | null => {
+  if (!isJpeg(buf)) return null;
+  try {
+    const quantTables: Int32Array[] = [];
+    const dcTables: HuffmanTable[] = [];
+    const acTables: HuffmanTable[] = [];
+    let frame: Frame | null = null;
+    let restartInterval = 0;
+    let adobeTransform: number | null = null;
+
+    let pos = 2;
+    while (pos + 4 <= buf.length) {
+      if (buf[pos] !== 0xff) {
+        pos++; // tolerate junk between segments
+        continue;
+      }
+      const marker = buf[pos + 1];
+      if (marker === 0xff) {
+        pos++; // fill byte
+        continue;
+      }
+      if (marker === 0xd9) break; // EOI
+      if (marker === 0xd8 || (marker >= 0xd0 && marker <= 0xd7)) {
+        pos += 2; // standalone markers
+        continue;
+      }
+
+      const length = (buf[pos + 2] << 8) | buf[pos + 3];
+      const segment = buf.subarray(pos + 4, pos + 2 + length);
+      pos += 2 + length;
+
+      switch (marker) {
+        case 0xdb: {
+          // DQT: one or more tables, 8 or 16-bit entries in zigzag order
+          for (let p = 0; p < segment.length; ) {
+            const precision = segment[p] >> 4;
+            const id = segment[p] & 15;
+            p++;
+            const table = new Int32Array(64);
+            for (let k = 0; k < 64; k++) {
+              table[ZIGZAG[k]] = precision ? (segment[p] << 8) | segment[p + 1] : segment[p];
+              p += precision ? 2 : 1;
+            }
+            quantTables[id] = table;
+          }
+          break;
+        }
+        case 0xc4: {
+          // DHT: one or more tables, class 0 = DC, 1 = AC
+          for (let p = 0; p < segment.length; ) {
+            const tableClass = segment[p] >> 4;
+            const id = segment[p] & 15;
+            const counts = segment.subarray(p + 1, p + 17);
+            let total = 0;
+            for (const n of counts) total += n;
+            const values = segment.slice(p + 17, p + 17 + total);
+            (tableClass === 0 ? dcTables : acTables)[id] = buildHuffmanTable(counts, values);
+            p += 17 + total;
+          }
+          break;
+        }
+        case 0xdd: // DRI
+          restartInterval = (segment[0] << 8) | segment[1];
+          break;
+        case 0xee: // APP14: Adobe color transform flag
+          if (String.fromCharCode(...segment.subarray(0, 5)) === "Adobe") adobeTransform = segment[11] ?? 0;
+          break;
+        case 0xc0: // baseline
+        case 0xc1: // extended sequential, Huffman
+        case 0xc2: // progressive, Huffman
+          if (frame) throw new Error("multiple frames");
+          frame = parseFrame(segment, marker === 0xc2);
+          break;
+        case 0xc3:
+        case 0xc5:
+        case 0xc6:
+        case 0xc7:
+        case 0xc9:
+        case 0xca:
+        case 0xcb:
+        case 0xcd:
+        case 0xce:
+        case 0xcf:
+          throw new Error("unsupported JPEG coding process");
+        case 0xda: {
+          // SOS: the entropy-coded data follows this header
+          if (!frame) throw new Error("scan before frame");
+          const count = segment[0];
+          const scanComponents: Component[] = [];
+          for (let i = 0; i < count; i++) {
+            const c = frame.components.find((fc) => fc.id === segment[1 + i * 2]);
+            if (!c) throw new Error("unknown scan component");
+            const tables = segment[2 + i * 2];
+            c.dcTable = dcTables[tables >> 4];
+            c.acTable = acTables[tables & 15];
+            scanComponents.push(c);
+          }
+          const p = 1 + count * 2;
+          const scan = { ss: segment[p], se: segment[p + 1], ah: segment[p + 2] >> 4, al: segment[p + 2] & 15 };
+          pos = decodeScan(buf, pos, frame, scanComponents, restartInterval, scan);
+          break;
+        }
+        // APPn, COM and anything else: skip
+      }
+    }
+
+    if (!frame) return null;
+    const planes = frame.components.map((c) => {
+      const quant = quantTables[c.tq];
+      if (!quant) throw new Error("missing quantization table");
+      return buildComponentPlane(c, quant);
+    });
+    return toRgba(frame, planes, adobeTransform);
+  } catch {
+    return null; // corrupt or unsupported
+  }
+};
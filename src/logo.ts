@@ -0,0 +1,126 @@
+/**
+ * Project logo discovery for ?source=logo.
+ * Most repos' og:image is GitHub's generated card rather than the project's
+ * logo, which usually lives in the repo itself. Candidates, best first: a
+ * logo file in .github/, the root, docs/ or assets/; the first image in the
+ * README that isn't a badge; the homepage's touch icon or favicon. Listing
+ * the repo needs a GITHUB_TOKEN.
+ */
+
+import { fetchGitHubRepoFiles } from "./github";
+import { scrapePage } from "./meta";
+import { invalidParam, type ParsedParams } from "./params";
+import { USER_AGENT } from "./providers";
+
+export type LogoResult = { status: "found"; url: string } | { status: "missing" } | { status: "error" };
+
+// In priority order; "" is the repo root
+const LOGO_DIRECTORIES = [".github", "", "docs", "assets"];
+// Raster first: transforms can't decode SVG, so an SVG logo can only be served as-is
+const LOGO_EXTENSIONS = ["png", "webp", "jpg", "jpeg", "gif", "svg"];
+
+const README_REGEX = /^readme(?:\.(?:md|markdown|mdx))?$/i;
+// Markdown images and HTML <img> tags, whichever comes first
+const README_IMAGE_REGEX = /!\[[^\]]*\]\(\s*<?([^\s)>]+)|<img\b[^>]*?\ssrc\s*=\s*["']?([^"'\s>]+)/gi;
+// CI, coverage and version badges tend to come before the logo
+const BADGE_REGEX = /badge|shields\.io|travis-ci|circleci|codecov|coveralls|\/actions\/workflows\//i;
+
+// Logo lookups are cached under the repo's key plus this; "~" can't appear in a
+// path, and purging the repo as a prefix clears its logo too
+export const LOGO_KEY_SUFFIX = "/~logo";
+
+// ?source=og is the default and the same as leaving it out
+export const parseSourceParam = (params: URLSearchParams): ParsedParams<"logo"> => {
+  const value = params.get("source");
+  if (value === null || value === "og") return { status: "none" };
+  if (value === "logo") return { status: "ok", options: "logo" };
+  return invalidParam("Invalid source. Use og or logo");
+};
+
+const rawUrl = (path: string, file: string): string => `https://raw.githubusercontent.com${path}/HEAD/${file}`;
+
+// logo.png, Logo.svg and the like; the extension order breaks ties within a directory
+const findLogoFile = (files: string[]): string | null => {
+  for (const extension of LOGO_EXTENSIONS) {
+    const file = files.find((name) => name.toLowerCase() === `logo.${extension}`);
+    if (file) return file;
+  }
+  return null;
+};
+
+// Stands in for the repo's root while resolving README links, so "/x" is the root and "../x" can't climb out of it
+const REPO_ROOT = "https://repo.invalid/";
+
+// Relative README images live in the repo; github.com/.../blob/ links are pages, not images
+const toImageUrl = (src: string, path: string, readme: string): string | null => {
+  try {
+    const url = new URL(src, REPO_ROOT + readme);
+    if (url.href.startsWith(REPO_ROOT)) return rawUrl(path, url.href.slice(REPO_ROOT.length).replace(/#.*/, ""));
+    if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+    const segments = url.pathname.split("/");
+    if (url.hostname === "github.com" && segments[3] === "blob") segments[3] = "raw";
+    url.pathname = segments.join("/");
+    return url.href;
+  } catch {
+    return null;
+  }
+};
+
+// The first image in a README that isn't a badge; readme is its path within the repo
+export const findReadmeImage = (text: string, path: string, readme: string): string | null => {
+  for (const [, markdown, html] of text.matchAll(README_IMAGE_REGEX)) {
+    const src = markdown ?? html;
+    if (BADGE_REGEX.test(src)) continue;
+    const url = toImageUrl(src, path, readme);
+    if (url) return url;
+  }
+  return null;
+};
+
+const fetchReadmeImage = async (path: string, readme: string): Promise<string | null> => {
+  try {
+    const response = await fetch(rawUrl(path, readme), { headers: { "User-Agent": USER_AGENT } });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return null;
+    }
+    return findReadmeImage(await response.text(), path, readme);
+  } catch {
+    // A README we can't read just has no image
+  }
+  return null;
+};
+
+const fetchHomepageIcon = async (homepage: string): Promise<string | null> => {
+  try {
+    const response = await fetch(homepage, { headers: { "User-Agent": USER_AGENT, Accept: "text/html" } });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return null;
+    }
+    const [icon] = (await scrapePage(response, { stars: false })).icons;
+    // Resolved against where any redirects ended up
+    return icon ? new URL(icon, response.url || homepage).href : null;
+  } catch {
+    return null;
+  }
+};
+
+// path is a validated /owner/repo
+export const discoverLogo = async (path: string, token: string): Promise<LogoResult> => {
+  const listing = await fetchGitHubRepoFiles(path, LOGO_DIRECTORIES, token);
+  if (listing.status !== "found") return listing;
+
+  for (const dir of LOGO_DIRECTORIES) {
+    const file = findLogoFile(listing.files.get(dir) ?? []);
+    if (file) return { status: "found", url: rawUrl(path, dir ? `${dir}/${file}` : file) };
+  }
+
+  const readme = listing.files.get("")?.find((name) => README_REGEX.test(name));
+  const readmeImage = readme ? await fetchReadmeImage(path, readme) : null;
+  if (readmeImage) return { status: "found", url: readmeImage };
+
+  const homepage = listing.homepage && /^https?:\/\//i.test(listing.homepage) ? listing.homepage : null;
+  const icon = homepage ? await fetchHomepageIcon(homepage) : null;
+  return icon ? { status: "found", url: icon } : { status: "missing" };
+};
@@ -0,0 +1,79 @@
+/**
+ * Shape masks for ?shape=circle and ?shape=rounded.
+ * Corners become transparent with antialiased edges: each pixel's alpha is
+ * scaled by how much of it falls inside the shape. Circles crop the centre
+ * square first so the mask is round rather than elliptical.
+ */
+
+import { createImage, type RawImage } from "./image";
+import { invalidParam, type ParsedParams } from "./params";
+
+export type Shape = "circle" | "rounded";
+
+export interface MaskOptions {
+  shape: Shape;
+  radius: number; // corner radius as a percentage of the shorter side; 50 for circles
+}
+
+const DEFAULT_RADIUS = 10;
+const MAX_RADIUS = 50;
+
+export const parseMaskOptions = (params: URLSearchParams): ParsedParams<MaskOptions> => {
+  const shape = params.get("shape");
+  const radiusParam = params.get("radius");
+  if (shape === null) {
+    return radiusParam === null ? { status: "none" } : invalidParam("Invalid radius. Use it with shape=rounded");
+  }
+  if (shape === "circle") return { status: "ok", options: { shape, radius: MAX_RADIUS } };
+  if (shape !== "rounded") return invalidParam("Invalid shape. Use circle or rounded");
+
+  const radius = radiusParam === null ? DEFAULT_RADIUS : Number(radiusParam);
+  if (!/^\d+(?:\.\d+)?$/.test(radiusParam ?? "0") || radius > MAX_RADIUS) {
+    return invalidParam(`Invalid radius. Use a percentage from 0 to ${MAX_RADIUS}`);
+  }
+  return { status: "ok", options: { shape, radius } };
+};
+
+export const maskOptionsKey = (o: MaskOptions): string => `${o.shape} ${o.radius}`;
+
+// The centred square of the image, or null when it's already square
+export const cropSquare = (image: RawImage): RawImage | null => {
+  const { width, height, data } = image;
+  if (width === height) return null;
+  const size = Math.min(width, height);
+  const left = (width - size) >> 1;
+  const top = (height - size) >> 1;
+  const cropped = createImage(size, size);
+  for (let y = 0; y < size; y++) {
+    const start = ((top + y) * width + left) * 4;
+    cropped.data.set(data.subarray(start, start + size * 4), y * size * 4);
+  }
+  return cropped;
+};
+
+export const maskImage = (image: RawImage, options: MaskOptions): RawImage | null => {
+  const { width, height } = image;
+  const r = (Math.min(width, height) * options.radius) / 100;
+  if (r <= 0) return null;
+
+  const masked = { width, height, data: image.data.slice() };
+  const edge = Math.ceil(r);
+  for (let y = 0; y < height; y++) {
+    // Only rows and columns within the radius of an edge can be outside the shape
+    const py = y + 0.5;
+    if (py >= r && py <= height - r) continue;
+    const cy = Math.min(Math.max(py, r), height - r);
+    for (let x = 0; x < width; x++) {
+      if (x === edge && width - edge > edge) x = width - edge;
+      const px = x + 0.5;
+      const cx = Math.min(Math.max(px, r), width - r);
+      // Distance past the corner arc, smoothed over one pixel
+      const coverage = Math.min(1, Math.max(0, r - Math.hypot(px - cx, py - cy) + 0.5));
+      if (coverage < 1) {
+        const i = (y * width + x) * 4 + 3;
+        masked.data[i] = Math.round(masked.data[i] * coverage);
+      }
+    }
+  }
+  return masked;
+};
@@ -0,0 +1,131 @@
+/**
+ * Page metadata scraped from forge HTML: image candidates from <meta> tags,
+ * title and description, and GitHub's star count. Pages are streamed
+ * through the head parser in html.ts rather than downloaded whole.
+ */
+
+import { createHeadParser, type HeadParser, type HeadTag } from "./html";
+
+// Extra page details kept alongside the og:image for ?format=json and SVG cards
+export interface PageMeta {
+  title: string | null;
+  description: string | null;
+  twitterImage: string | null;
+  stars?: number | null; // GitHub repos only; missing when the page wasn't read that far
+  customImage?: boolean; // GitHub repos looked up through the API: whether the og:image was uploaded
+}
+
+export interface ScrapedPage {
+  images: string[]; // image candidates, best first
+  icons: string[]; // <link> icons as written, best first
+  meta: PageMeta;
+}
+
+export interface ScrapeOptions {
+  stars: boolean; // keep reading past </head> for the star counter (GitHub repo pages, when it's shown)
+}
+
+// In preference order; within a key, document order
+const IMAGE_KEYS = ["og:image:secure_url", "og:image", "og:image:url", "twitter:image", "twitter:image:src"];
+
+// The star counter's title holds the exact count, e.g. title="170,889"
+const STARS_REGEX = /id="repo-stars-counter-star"[^>]*?\stitle="([\d,]+)"/;
+// The counter sits near the top of the page; give up on it after this much body
+const MAX_STARS_SCAN_LENGTH = 512 * 1024;
+// Carried between chunks so a counter split across two is still found
+const STARS_OVERLAP = 1024;
+
+const extractStars = (html: string): number | null => {
+  const match = html.match(STARS_REGEX);
+  return match ? Number(match[1].replace(/,/g, "")) : null;
+};
+
+// og:* tags use property=, twitter:* tags use name=, and some pages mix them up
+const collectMeta = (tags: HeadTag[]): Map<string, string[]> => {
+  const values = new Map<string, string[]>();
+  for (const { name, attributes } of tags) {
+    const key = (attributes.property ?? attributes.name ?? attributes.itemprop)?.toLowerCase();
+    const content = attributes.content?.trim();
+    if (name !== "meta" || !key || !content) continue;
+    values.set(key, [...(values.get(key) ?? []), content]);
+  }
+  return values;
+};
+
+const iconSize = (sizes: string | undefined): number =>
+  Math.max(0, ...(sizes ?? "").split(/\s+/).map((size) => parseInt(size, 10) || 0));
+
+// Apple touch icons first (usually 180px), then other icons, largest declared size first
+const collectIcons = (tags: HeadTag[]): string[] =>
+  tags
+    .filter(({ name, attributes }) => name === "link" && attributes.href)
+    .map(({ attributes }) => {
+      const rel = (attributes.rel ?? "").toLowerCase().split(/\s+/);
+      const apple = rel.some((r) => r.startsWith("apple-touch-icon"));
+      return { href: attributes.href, apple, icon: apple || rel.includes("icon"), size: iconSize(attributes.sizes) };
+    })
+    .filter(({ icon }) => icon)
+    .sort((a, b) => Number(b.apple) - Number(a.apple) || b.size - a.size)
+    .map(({ href }) => href);
+
+const toScrapedPage = (parser: HeadParser, stars: number | null | undefined): ScrapedPage => {
+  const meta = collectMeta(parser.tags);
+  const first = (...keys: string[]): string | null => keys.map((k) => meta.get(k)?.[0]).find(Boolean) ?? null;
+  return {
+    images: [...new Set(IMAGE_KEYS.flatMap((k) => meta.get(k) ?? []))],
+    icons: collectIcons(parser.tags),
+    meta: {
+      title: first("og:title") ?? (parser.title() || null),
+      description: first("og:description", "description"),
+      twitterImage: first("twitter:image", "twitter:image:src"),
+      stars,
+    },
+  };
+};
+
+/**
+ * Reads a page until its head is parsed, then cancels the rest of the
+ * download. With stars, reading continues until the star counter turns up.
+ */
+export const scrapePage = async (response: Response, { stars }: ScrapeOptions): Promise<ScrapedPage> => {
+  const parser = createHeadParser();
+  if (!response.body) return toScrapedPage(parser, stars ? null : undefined);
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let starCount: number | null = null;
+  let tail = "";
+  let scanned = 0;
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const headDone = parser.write(value);
+      if (stars && starCount === null && scanned < MAX_STARS_SCAN_LENGTH) {
+        const text = tail + value;
+        starCount = extractStars(text);
+        tail = text.slice(-STARS_OVERLAP);
+        scanned += value.length;
+      }
+      if (headDone && (!stars || starCount !== null || scanned >= MAX_STARS_SCAN_LENGTH)) break;
+    }
+  } finally {
+    // Stops the rest of the page downloading
+    await reader.cancel().catch(() => {});
+  }
+  return toScrapedPage(parser, stars ? starCount : undefined);
+};
+
+// The best image candidate, which is what every provider uses
+export const bestImage = (page: ScrapedPage): string | null => page.images[0] ?? null;
+
+export const EMPTY_PAGE_META: PageMeta = { title: null, description: null, twitterImage: null, stars: null };
+
+export const isPageMeta = (value: unknown): value is PageMeta => {
+  if (!value || typeof value !== "object") return false;
+  const meta = value as Record<string, unknown>;
+  return (
+    ["title", "description", "twitterImage"].every((k) => typeof meta[k] === "string" || meta[k] === null) &&
+    (meta.stars === undefined || meta.stars === null || typeof meta.stars === "number") &&
+    (meta.customImage === undefined || typeof meta.customImage === "boolean")
+  );
+};
@@ -0,0 +1,134 @@
+/**
+ * Request metrics: a structured JSON log line per request, a Workers
+ * Analytics Engine data point when ANALYTICS is bound, and per-isolate
+ * counters behind GET /stats. Durations are wall time; the Workers clock
+ * only moves across I/O, so pure CPU work such as padding shows up in the
+ * dashboard's CPU time rather than here.
+ */
+
+import type { CacheLayer, Freshness } from "./cache";
+import type { Env } from "./env";
+
+export type LookupOutcome = "found" | "missing" | "error";
+
+// Filled in by whichever branch answers the request
+export interface RequestMetrics {
+  start: number;
+  method: string;
+  path: string; // as requested, before normalizing
+  host: string | null; // ?host=
+  lookup: LookupOutcome | null; // null when no og:image was looked up
+  cache: Freshness | "miss" | null;
+  layer: CacheLayer | null;
+  transform: string | null; // transform key, when a transformed image was served
+  transformMs: number | null;
+}
+
+interface Counters {
+  requests: number;
+  statuses: Record<string, number>; // by class: 2xx, 3xx, 4xx, 5xx
+  lookups: Record<LookupOutcome, number>;
+  cache: Record<Freshness | "miss", number>;
+  layers: Record<CacheLayer, number>;
+  upstream: Record<LookupOutcome | "limited", number>;
+  transforms: { computed: number; ms: number };
+}
+
+const MAX_COUNTED_PATHS = 1000; // the least requested path is dropped past this
+const TOP_PATHS = 20;
+
+// Per-isolate, since the isolate started
+const since = Date.now();
+const counters: Counters = {
+  requests: 0,
+  statuses: {},
+  lookups: { found: 0, missing: 0, error: 0 },
+  cache: { fresh: 0, stale: 0, expired: 0, miss: 0 },
+  layers: { memory: 0, edge: 0, kv: 0 },
+  upstream: { found: 0, missing: 0, error: 0, limited: 0 },
+  transforms: { computed: 0, ms: 0 },
+};
+const pathCounts = new Map<string, number>();
+
+export const createRequestMetrics = (request: Request, url: URL): RequestMetrics => ({
+  start: Date.now(),
+  method: request.method.toUpperCase(),
+  path: url.pathname,
+  host: url.searchParams.get("host"),
+  lookup: null,
+  cache: null,
+  layer: null,
+  transform: null,
+  transformMs: null,
+});
+
+const countPath = (key: string): void => {
+  pathCounts.set(key, (pathCounts.get(key) ?? 0) + 1);
+  if (pathCounts.size <= MAX_COUNTED_PATHS) return;
+  let least: [string, number] | null = null;
+  for (const entry of pathCounts) if (!least || entry[1] < least[1]) least = entry;
+  pathCounts.delete(least![0]);
+};
+
+// key is the lookup key, so other forges' paths keep their ~host prefix
+export const recordLookup = (
+  metrics: RequestMetrics,
+  key: string,
+  result: { status: LookupOutcome; cache: Freshness | "miss"; layer?: CacheLayer },
+): void => {
+  metrics.lookup = result.status;
+  metrics.cache = result.cache;
+  metrics.layer = result.layer ?? null;
+  counters.lookups[result.status]++;
+  counters.cache[result.cache]++;
+  if (result.layer) counters.layers[result.layer]++;
+  countPath(key);
+};
+
+// Every forge fetch, including background refreshes and ones refused by the upstream rate limit
+export const recordUpstream = (status: LookupOutcome, limited: boolean): void => {
+  counters.upstream[limited ? "limited" : status]++;
+};
+
+export const recordTransform = (ms: number): void => {
+  counters.transforms.computed++;
+  counters.transforms.ms += ms;
+};
+
+const writeDataPoint = (env: Env, log: Record<string, string | number | null>): void => {
+  if (!env.ANALYTICS) return;
+  try {
+    env.ANALYTICS.writeDataPoint({
+      indexes: [String(log.host)],
+      blobs: [log.path, log.method, log.lookup, log.cache, log.layer, log.transform].map((v) => String(v ?? "")),
+      doubles: [Number(log.status), Number(log.ms), Number(log.transformMs ?? 0)],
+    });
+  } catch {
+    // Analytics are best effort
+  }
+};
+
+export const finishRequest = (metrics: RequestMetrics, response: Response, env: Env): void => {
+  counters.requests++;
+  const statusClass = `${Math.floor(response.status / 100)}xx`;
+  counters.statuses[statusClass] = (counters.statuses[statusClass] ?? 0) + 1;
+
+  const { start, ...fields } = metrics;
+  const log = { ...fields, host: metrics.host ?? "github", status: response.status, ms: Date.now() - start };
+  console.log(JSON.stringify(log));
+  writeDataPoint(env, log);
+};
+
+export const getStats = (memoryCache: { entries: number; max: number }) => {
+  const lookups = counters.cache.fresh + counters.cache.stale + counters.cache.expired + counters.cache.miss;
+  return {
+    since: new Date(since).toISOString(),
+    ...counters,
+    hitRate: lookups ? (lookups - counters.cache.miss) / lookups : null,
+    topPaths: [...pathCounts]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TOP_PATHS)
+      .map(([path, requests]) => ({ path, requests })),
+    memoryCache,
+  };
+};
@@ -0,0 +1,166 @@
+/**
+ * Aspect-ratio padding.
+ * Adds rows to images that are too wide for the requested ratio, or columns
+ * to images that are too tall. Padding is a solid colour, the repeated edge
+ * of the image, or a progressively blurred edge.
+ */
+
+import { averageColor } from "./colors";
+import { MAX_DECODED_PIXELS, createImage, type RawImage } from "./image";
+import { invalidParam, type ParsedParams } from "./params";
+
+export type Rgba = [number, number, number, number];
+export type FillMode = "solid" | "edge" | "blur";
+export type Align = "start" | "center" | "end";
+
+export interface PadOptions {
+  ratioW: number;
+  ratioH: number;
+  fill: FillMode;
+  background: Rgba | "auto"; // solid fill colour; auto averages the edges being extended
+  align: Align; // where the image sits: start is top (or left)
+}
+
+const RATIO_REGEX = /^(\d+(?:\.\d+)?):(\d+(?:\.\d+)?)$/;
+const MAX_RATIO = 10; // either way round
+
+const WHITE: Rgba = [255, 255, 255, 255];
+
+const ALIGNMENTS: Record<string, Align> = {
+  center: "center",
+  top: "start",
+  left: "start",
+  bottom: "end",
+  right: "end",
+};
+
+export const parseRatio = (value: string): [number, number] | null => {
+  const match = value.match(RATIO_REGEX);
+  if (!match) return null;
+  const w = Number(match[1]);
+  const h = Number(match[2]);
+  if (!(w > 0 && h > 0) || w / h > MAX_RATIO || h / w > MAX_RATIO) return null;
+  return [w, h];
+};
+
+// "transparent", or 3, 4, 6 or 8 hex digits with an optional leading #
+export const parseColor = (value: string): Rgba | null => {
+  if (value.toLowerCase() === "transparent") return [0, 0, 0, 0];
+  let hex = value.replace(/^#/, "");
+  if (!/^(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(hex)) return null;
+  if (hex.length <= 4) hex = hex.replace(/./g, "$&$&");
+  if (hex.length === 6) hex += "ff";
+  return [0, 2, 4, 6].map((i) => parseInt(hex.slice(i, i + 2), 16)) as Rgba;
+};
+
+export const parsePadOptions = (params: URLSearchParams): ParsedParams<PadOptions> => {
+  const ratioParam = params.get("ratio");
+  if (!ratioParam) return { status: "none" };
+  const ratio = parseRatio(ratioParam);
+  if (!ratio) return invalidParam("Invalid ratio. Use W:H, e.g. 3:2 or 1.91:1");
+
+  const bgParam = params.get("bg");
+  const background = bgParam === "auto" ? "auto" : bgParam ? parseColor(bgParam) : WHITE;
+  if (!background) return invalidParam("Invalid bg. Use a hex color, transparent or auto");
+
+  // A background colour on its own implies a solid fill
+  const fillParam = params.get("fill") ?? (bgParam ? "solid" : "edge");
+  if (fillParam !== "solid" && fillParam !== "edge" && fillParam !== "blur") {
+    return invalidParam("Invalid fill. Use solid, edge or blur");
+  }
+
+  const align = ALIGNMENTS[params.get("align") ?? "center"];
+  if (!align) return invalidParam("Invalid align. Use center, top, bottom, left or right");
+
+  return { status: "ok", options: { ratioW: ratio[0], ratioH: ratio[1], fill: fillParam, background, align } };
+};
+
+// Stable key for everything that affects the padded output
+export const padOptionsKey = (o: PadOptions): string =>
+  `${o.ratioW}:${o.ratioH} ${o.fill} ${o.background === "auto" ? "auto" : o.background.join(",")} ${o.align}`;
+
+/**
+ * A row or column of pixels. Padding works on lines parallel to the edge
+ * being extended, so vertical and horizontal padding share one code path.
+ */
+const readLine = (image: RawImage, index: number, rows: boolean): Uint8Array => {
+  const { width, height, data } = image;
+  if (rows) return data.slice(index * width * 4, (index + 1) * width * 4);
+  const line = new Uint8Array(height * 4);
+  for (let y = 0; y < height; y++) line.set(data.subarray((y * width + index) * 4, (y * width + index + 1) * 4), y * 4);
+  return line;
+};
+
+const writeLine = (image: RawImage, index: number, line: Uint8Array, rows: boolean): void => {
+  const { width, data } = image;
+  if (rows) {
+    data.set(line, index * width * 4);
+    return;
+  }
+  for (let y = 0; y < line.length / 4; y++) data.set(line.subarray(y * 4, y * 4 + 4), (y * width + index) * 4);
+};
+
+// Box blur along a line, clamping the window at both ends
+const blurLine = (line: Uint8Array, radius: number): Uint8Array => {
+  const n = line.length / 4;
+  const sums = new Float64Array((n + 1) * 4);
+  for (let i = 0; i < n; i++) for (let c = 0; c < 4; c++) sums[(i + 1) * 4 + c] = sums[i * 4 + c] + line[i * 4 + c];
+  const out = new Uint8Array(line.length);
+  for (let i = 0; i < n; i++) {
+    const lo = Math.max(0, i - radius);
+    const hi = Math.min(n, i + radius + 1);
+    for (let c = 0; c < 4; c++) out[i * 4 + c] = Math.round((sums[hi * 4 + c] - sums[lo * 4 + c]) / (hi - lo));
+  }
+  return out;
+};
+
+// Size after padding; null when the image already has the ratio
+export const paddedSize = (
+  width: number,
+  height: number,
+  options: PadOptions,
+): { width: number; height: number; rows: boolean } | null => {
+  const targetHeight = Math.ceil((width * options.ratioH) / options.ratioW);
+  const targetWidth = Math.ceil((height * options.ratioW) / options.ratioH);
+  // Too wide gets rows, too tall gets columns
+  const rows = height < targetHeight;
+  if (!rows && width >= targetWidth) return null;
+  return { width: rows ? width : targetWidth, height: rows ? targetHeight : height, rows };
+};
+
+export const padImage = (image: RawImage, options: PadOptions): RawImage | null => {
+  const { width, height } = image;
+  const size = paddedSize(width, height, options);
+  if (!size) return null;
+  const { width: outWidth, height: outHeight, rows } = size;
+  if (outWidth * outHeight > MAX_DECODED_PIXELS) return null;
+
+  const imageLines = rows ? height : width;
+  const padding = (rows ? outHeight : outWidth) - imageLines;
+  const leading = options.align === "start" ? 0 : options.align === "end" ? padding : Math.ceil(padding / 2);
+
+  const padded = createImage(outWidth, outHeight);
+  const [left, top] = rows ? [0, leading] : [leading, 0];
+  for (let y = 0; y < height; y++) {
+    padded.data.set(image.data.subarray(y * width * 4, (y + 1) * width * 4), ((top + y) * outWidth + left) * 4);
+  }
+
+  // Edge fills repeat the first and last lines outwards (blur softens them with distance); bg=auto averages them
+  const first = readLine(image, 0, rows);
+  const last = readLine(image, imageLines - 1, rows);
+
+  if (options.fill === "solid") {
+    const background = options.background === "auto" ? averageColor([first, last]) : options.background;
+    const total = rows ? outHeight : outWidth;
+    const line = new Uint8Array((rows ? outWidth : outHeight) * 4);
+    for (let i = 0; i < line.length; i += 4) line.set(background, i);
+    for (let i = 0; i < total; i++) if (i < leading || i >= leading + imageLines) writeLine(padded, i, line, rows);
+    return padded;
+  }
+
+  const fillLine = (edge: Uint8Array, distance: number) =>
+    options.fill === "blur" ? blurLine(edge, 2 + (distance >> 1)) : edge;
+  for (let d = 1; d <= leading; d++) writeLine(padded, leading - d, fillLine(first, d), rows);
+  for (let d = 1; d <= padding - leading; d++) writeLine(padded, leading + imageLines - 1 + d, fillLine(last, d), rows);
+  return padded;
+};
@@ -0,0 +1,102 @@
+/**
+ * Route table for the GitHub pages that publish og:images: owners, repos,
+ * release tags, branches, commits, issues, pull requests, discussions,
+ * topics and gists. Each route validates its own segments before anything
+ * is fetched. Owner and repo names are case-insensitive and lowercased for
+ * caching; git refs are case-sensitive and kept as given.
+ */
+
+export type GitHubPageType =
+  | "owner"
+  | "repo"
+  | "release"
+  | "tree"
+  | "commit"
+  | "issue"
+  | "pull"
+  | "discussion"
+  | "topic"
+  | "gist";
+
+export interface GitHubPage {
+  type: GitHubPageType;
+  path: string; // lookup path: names lowercased, refs as given
+  owner: string | null; // the user or org whose avatar stands in for the page
+}
+
+// Owners are up to 39 letters, digits and hyphens, not starting with a hyphen
+// (some old accounts end with one); repos are up to 100 of [\w.-], but not "." or ".."
+const OWNER = /^[a-z\d][a-z\d-]{0,38}$/i;
+const REPO = /^(?!\.\.?$)[\w.-]{1,100}$/;
+const NUMBER = /^[1-9]\d{0,9}$/;
+const SHA = /^[\da-f]{7,40}$/i;
+const TOPIC = /^[a-z\d][a-z\d-]{0,49}$/i;
+const GIST_ID = /^[\da-f]{20,32}$/i;
+const REF_SEGMENT = /^[\w.+@-]+$/;
+const MAX_REF_LENGTH = 255;
+
+// Matches one or more trailing segments, kept case-sensitive: a tag or branch may contain "/"
+const REF = Symbol("ref");
+
+interface Route {
+  type: GitHubPageType;
+  pattern: (string | RegExp | typeof REF)[];
+  owner: number | null; // index of the owner segment
+}
+
+// Literal prefixes first, so /topics/rust isn't read as a repo
+const ROUTES: Route[] = [
+  { type: "topic", pattern: ["topics", TOPIC], owner: null },
+  { type: "gist", pattern: ["gist", OWNER, GIST_ID], owner: 1 },
+  { type: "owner", pattern: [OWNER], owner: 0 },
+  { type: "repo", pattern: [OWNER, REPO], owner: 0 },
+  { type: "release", pattern: [OWNER, REPO, "releases", "tag", REF], owner: 0 },
+  { type: "tree", pattern: [OWNER, REPO, "tree", REF], owner: 0 },
+  { type: "commit", pattern: [OWNER, REPO, "commit", SHA], owner: 0 },
+  { type: "issue", pattern: [OWNER, REPO, "issues", NUMBER], owner: 0 },
+  { type: "pull", pattern: [OWNER, REPO, "pull", NUMBER], owner: 0 },
+  { type: "discussion", pattern: [OWNER, REPO, "discussions", NUMBER], owner: 0 },
+];
+
+const matchRoute = (route: Route, segments: string[]): string[] | null => {
+  const { pattern } = route;
+  const rest = pattern[pattern.length - 1] === REF;
+  const fixed = rest ? pattern.length - 1 : pattern.length;
+  if (rest ? segments.length <= fixed : segments.length !== fixed) return null;
+
+  const normalized: string[] = [];
+  for (let i = 0; i < fixed; i++) {
+    const spec = pattern[i];
+    const segment = segments[i].toLowerCase();
+    if (typeof spec === "string" ? segment !== spec : !(spec as RegExp).test(segment)) return null;
+    normalized.push(segment);
+  }
+  if (rest) {
+    const ref = segments.slice(fixed);
+    if (!ref.every((s) => REF_SEGMENT.test(s)) || ref.join("/").length > MAX_REF_LENGTH) return null;
+    normalized.push(...ref);
+  }
+  return normalized;
+};
+
+export const matchGitHubPage = (path: string): GitHubPage | null => {
+  const segments = path.split("/").filter(Boolean);
+  for (const route of ROUTES) {
+    const normalized = matchRoute(route, segments);
+    if (normalized) {
+      return {
+        type: route.type,
+        path: `/${normalized.join("/")}`,
+        owner: route.owner === null ? null : normalized[route.owner],
+      };
+    }
+  }
+  return null;
+};
+
+// Gists live on their own host on github.com, and under /gist on Enterprise
+export const gitHubPageUrl = (baseUrl: string, path: string): string => {
+  const page = matchGitHubPage(path);
+  if (page?.type === "gist" && baseUrl === "https://github.com") return `https://gist.github.com${path.slice("/gist".length)}`;
+  return `${baseUrl}${path}`;
+};
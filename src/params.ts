@@ -0,0 +1,7 @@
+/**
+ * Shared shape for parsed query parameters: "none" when the feature was not
+ * requested, "invalid" with a message for a 400 response.
+ */
+export type ParsedParams<T> = { status: "none" } | { status: "invalid"; message: string } | { status: "ok"; options: T };
+
+export const invalidParam = (message: string): { status: "invalid"; message: string } => ({ status: "invalid", message });
@@ -0,0 +1,493 @@
+/**
+ * PNG codec.
+ * Decodes every standard color type and bit depth (including PLTE/tRNS and
+ * Adam7 interlacing) to 8-bit RGBA, and encodes RGBA back to the smallest
+ * PNG it can: a palette when there are few enough colours, otherwise RGB or
+ * RGBA. Palette rows are left unfiltered; the rest are filtered adaptively
+ * with the minimum-sum heuristic.
+ */
+
+import { MAX_DECODED_PIXELS, createImage, type RawImage } from "./image";
+
+const crc32Table = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c;
+  }
+  return t;
+})();
+
+export const crc32 = (data: Uint8Array, start = 0, end = data.length): number => {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) crc = crc32Table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+// Decoded PNG plus the color-management chunks worth carrying into the output
+export interface DecodedPng extends RawImage {
+  ancillary: PngChunk[];
+}
+
+export const PNG_SIGNATURE = new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]);
+
+// Colour chunks still valid after converting to 8-bit RGBA, most specific first;
+// PLTE/tRNS/sBIT/bKGD are not, and pHYs doesn't matter on the web
+const COLOR_CHUNKS = ["iCCP", "sRGB", "gAMA", "cHRM"];
+
+// Adam7 pass origins and strides
+const ADAM7 = [
+  { x: 0, y: 0, dx: 8, dy: 8 },
+  { x: 4, y: 0, dx: 8, dy: 8 },
+  { x: 0, y: 4, dx: 4, dy: 8 },
+  { x: 2, y: 0, dx: 4, dy: 4 },
+  { x: 0, y: 2, dx: 2, dy: 4 },
+  { x: 1, y: 0, dx: 2, dy: 2 },
+  { x: 0, y: 1, dx: 1, dy: 2 },
+];
+
+// Samples per pixel for each color type, and the bit depths it allows
+const COLOR_TYPES: Record<number, { channels: number; depths: number[] }> = {
+  0: { channels: 1, depths: [1, 2, 4, 8, 16] }, // grayscale
+  2: { channels: 3, depths: [8, 16] }, // RGB
+  3: { channels: 1, depths: [1, 2, 4, 8] }, // palette
+  4: { channels: 2, depths: [8, 16] }, // grayscale + alpha
+  6: { channels: 4, depths: [8, 16] }, // RGBA
+};
+
+export const isPng = (buf: Uint8Array): boolean => {
+  if (buf.length < 8) return false;
+  for (let i = 0; i < 8; i++) {
+    if (buf[i] !== PNG_SIGNATURE[i]) return false;
+  }
+  return true;
+};
+
+export const parsePngChunks = (buf: Uint8Array): PngChunk[] => {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength);
+  let offset = 8; // skip signature
+  const chunks: PngChunk[] = [];
+  while (offset + 8 <= buf.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...buf.subarray(offset + 4, offset + 8));
+    const data = buf.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data });
+    offset += 12 + length; // 4 len + 4 type + data + 4 crc
+    if (type === "IEND") break;
+  }
+  return chunks;
+};
+
+export const buildPng = (chunks: PngChunk[]): Uint8Array => {
+  let totalSize = 8; // signature
+  for (const c of chunks) totalSize += 12 + c.data.length;
+  const out = new Uint8Array(totalSize);
+  out.set(PNG_SIGNATURE);
+  const view = new DataView(out.buffer, out.byteOffset, out.byteLength);
+  let offset = 8;
+  for (const c of chunks) {
+    view.setUint32(offset, c.data.length);
+    const typeBytes = new Uint8Array([
+      c.type.charCodeAt(0),
+      c.type.charCodeAt(1),
+      c.type.charCodeAt(2),
+      c.type.charCodeAt(3),
+    ]);
+    out.set(typeBytes, offset + 4);
+    out.set(c.data, offset + 8);
+    const crcVal = crc32(out, offset + 4, offset + 8 + c.data.length);
+    view.setUint32(offset + 8 + c.data.length, crcVal);
+    offset += 12 + c.data.length;
+  }
+  return out;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  let totalLen = 0;
+  for (const p of parts) totalLen += p.length;
+  const result = new Uint8Array(totalLen);
+  let off = 0;
+  for (const p of parts) {
+    result.set(p, off);
+    off += p.length;
+  }
+  return result;
+};
+
+const runStream = async (stream: CompressionStream | DecompressionStream, data: Uint8Array): Promise<Uint8Array> => {
+  const writer = stream.writable.getWriter();
+  // Errors surface through the reader; don't leave these rejections unhandled
+  writer.write(data).catch(() => {});
+  writer.close().catch(() => {});
+  const reader = stream.readable.getReader();
+  const parts: Uint8Array[] = [];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return concatBytes(parts);
+};
+
+export const zlibDecompress = (data: Uint8Array): Promise<Uint8Array> =>
+  runStream(new DecompressionStream("deflate"), data);
+
+export const zlibCompress = (data: Uint8Array): Promise<Uint8Array> =>
+  runStream(new CompressionStream("deflate"), data);
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+};
+
+/**
+ * Reverses PNG row filters for one (sub-)image.
+ * PNG filters encode each byte relative to neighbors, so rows must be
+ * decoded sequentially from the top. Returns null on truncated data.
+ */
+const unfilter = (
+  src: Uint8Array,
+  srcOffset: number,
+  rowBytes: number,
+  rows: number,
+  bpp: number,
+): Uint8Array | null => {
+  if (srcOffset + rows * (rowBytes + 1) > src.length) return null;
+  const out = new Uint8Array(rows * rowBytes);
+  for (let row = 0; row < rows; row++) {
+    const filterType = src[srcOffset + row * (rowBytes + 1)];
+    const srcOff = srcOffset + row * (rowBytes + 1) + 1;
+    const dstOff = row * rowBytes;
+    const prevOff = (row - 1) * rowBytes;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = src[srcOff + i];
+      const a = i >= bpp ? out[dstOff + i - bpp] : 0;
+      const b = row > 0 ? out[prevOff + i] : 0;
+      const c = row > 0 && i >= bpp ? out[prevOff + i - bpp] : 0;
+
+      switch (filterType) {
+        case 0: out[dstOff + i] = raw; break;
+        case 1: out[dstOff + i] = (raw + a) & 0xff; break;
+        case 2: out[dstOff + i] = (raw + b) & 0xff; break;
+        case 3: out[dstOff + i] = (raw + ((a + b) >>> 1)) & 0xff; break;
+        case 4: out[dstOff + i] = (raw + paeth(a, b, c)) & 0xff; break;
+        default: return null;
+      }
+    }
+  }
+  return out;
+};
+
+interface PngHeader {
+  width: number;
+  height: number;
+  bitDepth: number;
+  colorType: number;
+  interlace: number;
+}
+
+const readHeader = (chunk: PngChunk | undefined): PngHeader | null => {
+  if (!chunk || chunk.data.length < 13) return null;
+  const ihdr = new DataView(chunk.data.buffer, chunk.data.byteOffset, chunk.data.byteLength);
+  const header: PngHeader = {
+    width: ihdr.getUint32(0),
+    height: ihdr.getUint32(4),
+    bitDepth: ihdr.getUint8(8),
+    colorType: ihdr.getUint8(9),
+    interlace: ihdr.getUint8(12),
+  };
+  const colorType = COLOR_TYPES[header.colorType];
+  if (!colorType || !colorType.depths.includes(header.bitDepth)) return null;
+  if (header.interlace > 1 || header.width === 0 || header.height === 0) return null;
+  if (header.width * header.height > MAX_DECODED_PIXELS) return null;
+  return header;
+};
+
+/**
+ * Builds a converter from one unfiltered scanline to RGBA pixels.
+ * Samples are scaled to 8 bits; tRNS keys are compared against the
+ * unscaled sample values as the spec requires.
+ */
+const createPixelReader = (header: PngHeader, palette: Uint8Array | null, trns: Uint8Array | null) => {
+  const { bitDepth, colorType } = header;
+  const maxSample = (1 << bitDepth) - 1;
+
+  const sample = (row: Uint8Array, index: number): number => {
+    if (bitDepth === 8) return row[index];
+    if (bitDepth === 16) return (row[index * 2] << 8) | row[index * 2 + 1];
+    const bit = index * bitDepth;
+    return (row[bit >> 3] >> (8 - bitDepth - (bit & 7))) & maxSample;
+  };
+  const to8 = (v: number): number => (bitDepth === 16 ? v >> 8 : bitDepth === 8 ? v : Math.round((v * 255) / maxSample));
+  const trnsValue = (i: number): number => (trns && trns.length >= i * 2 + 2 ? (trns[i * 2] << 8) | trns[i * 2 + 1] : -1);
+  const grayKey = colorType === 0 ? trnsValue(0) : -1;
+  const rgbKey = colorType === 2 ? [trnsValue(0), trnsValue(1), trnsValue(2)] : null;
+
+  return (row: Uint8Array, x: number, out: Uint8Array, o: number): void => {
+    switch (colorType) {
+      case 0: {
+        const v = sample(row, x);
+        out[o] = out[o + 1] = out[o + 2] = to8(v);
+        out[o + 3] = v === grayKey ? 0 : 255;
+        break;
+      }
+      case 2: {
+        const r = sample(row, x * 3);
+        const g = sample(row, x * 3 + 1);
+        const b = sample(row, x * 3 + 2);
+        out[o] = to8(r);
+        out[o + 1] = to8(g);
+        out[o + 2] = to8(b);
+        out[o + 3] = rgbKey && r === rgbKey[0] && g === rgbKey[1] && b === rgbKey[2] ? 0 : 255;
+        break;
+      }
+      case 3: {
+        const idx = sample(row, x);
+        // Out-of-range indices are an error per spec; render them black
+        if (palette && idx * 3 + 2 < palette.length) {
+          out[o] = palette[idx * 3];
+          out[o + 1] = palette[idx * 3 + 1];
+          out[o + 2] = palette[idx * 3 + 2];
+        } else {
+          out[o] = out[o + 1] = out[o + 2] = 0;
+        }
+        out[o + 3] = trns && idx < trns.length ? trns[idx] : 255;
+        break;
+      }
+      case 4: {
+        out[o] = out[o + 1] = out[o + 2] = to8(sample(row, x * 2));
+        out[o + 3] = to8(sample(row, x * 2 + 1));
+        break;
+      }
+      case 6: {
+        out[o] = to8(sample(row, x * 4));
+        out[o + 1] = to8(sample(row, x * 4 + 1));
+        out[o + 2] = to8(sample(row, x * 4 + 2));
+        out[o + 3] = to8(sample(row, x * 4 + 3));
+        break;
+      }
+    }
+  };
+};
+
+// An ICC profile overrides sRGB, and either overrides gAMA and cHRM, so only the first kind present is kept
+const colorChunks = (chunks: PngChunk[]): PngChunk[] => {
+  for (const type of COLOR_CHUNKS.slice(0, 2)) {
+    const chunk = chunks.find((c) => c.type === type);
+    if (chunk) return [chunk];
+  }
+  return chunks.filter((c) => c.type === "gAMA" || c.type === "cHRM");
+};
+
+export const decodePng = async (buf: Uint8Array): Promise<DecodedPng | null> => {
+  if (!isPng(buf)) return null;
+
+  const chunks = parsePngChunks(buf);
+  const header = readHeader(chunks.find((c) => c.type === "IHDR"));
+  if (!header) return null;
+
+  const palette = chunks.find((c) => c.type === "PLTE")?.data ?? null;
+  if (header.colorType === 3 && !palette) return null;
+  const trns = chunks.find((c) => c.type === "tRNS")?.data ?? null;
+
+  const decompressed = await zlibDecompress(concatBytes(chunks.filter((c) => c.type === "IDAT").map((c) => c.data)));
+
+  const { width, height, bitDepth, colorType } = header;
+  const bitsPerPixel = COLOR_TYPES[colorType].channels * bitDepth;
+  const bpp = Math.max(1, bitsPerPixel >> 3); // filter byte distance, at least one byte
+  const readPixel = createPixelReader(header, palette, trns);
+  const image = createImage(width, height);
+
+  const passes = header.interlace ? ADAM7 : [{ x: 0, y: 0, dx: 1, dy: 1 }];
+  let offset = 0;
+  for (const pass of passes) {
+    const passWidth = width > pass.x ? Math.ceil((width - pass.x) / pass.dx) : 0;
+    const passHeight = height > pass.y ? Math.ceil((height - pass.y) / pass.dy) : 0;
+    if (passWidth === 0 || passHeight === 0) continue; // empty passes have no scanlines
+
+    const rowBytes = Math.ceil((passWidth * bitsPerPixel) / 8);
+    const pixels = unfilter(decompressed, offset, rowBytes, passHeight, bpp);
+    if (!pixels) return null;
+    offset += passHeight * (rowBytes + 1);
+
+    for (let py = 0; py < passHeight; py++) {
+      const row = pixels.subarray(py * rowBytes, (py + 1) * rowBytes);
+      const y = pass.y + py * pass.dy;
+      for (let px = 0; px < passWidth; px++) {
+        const x = pass.x + px * pass.dx;
+        readPixel(row, px, image.data, (y * width + x) * 4);
+      }
+    }
+  }
+
+  return { ...image, ancillary: colorChunks(chunks) };
+};
+
+const hasTransparency = (image: RawImage): boolean => {
+  for (let i = 3; i < image.data.length; i += 4) {
+    if (image.data[i] !== 255) return true;
+  }
+  return false;
+};
+
+interface Palette {
+  colors: Uint8Array; // RGBA entries, translucent ones first so tRNS stays short
+  translucent: number; // entries with alpha below 255
+  indices: Uint8Array; // one per pixel
+}
+
+// Null when the image has more than 256 distinct colours
+const buildPalette = (image: RawImage): Palette | null => {
+  const { data } = image;
+  const rgbaAt = (i: number): number => ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3]) >>> 0;
+  const seen = new Map<number, number>();
+  for (let i = 0; i < data.length; i += 4) {
+    const rgba = rgbaAt(i);
+    if (seen.has(rgba)) continue;
+    if (seen.size === 256) return null;
+    seen.set(rgba, seen.size);
+  }
+
+  const entries = [...seen.keys()];
+  const translucent = entries.filter((rgba) => (rgba & 0xff) !== 255);
+  const ordered = [...translucent, ...entries.filter((rgba) => (rgba & 0xff) === 255)];
+  const colors = new Uint8Array(ordered.length * 4);
+  ordered.forEach((rgba, i) => {
+    seen.set(rgba, i);
+    colors.set([rgba >>> 24, (rgba >> 16) & 0xff, (rgba >> 8) & 0xff, rgba & 0xff], i * 4);
+  });
+
+  const indices = new Uint8Array(data.length >> 2);
+  for (let i = 0; i < indices.length; i++) indices[i] = seen.get(rgbaAt(i * 4))!;
+  return { colors, translucent: translucent.length, indices };
+};
+
+// Unfiltered scanlines: palette indices packed at the given depth, or RGB(A) samples
+const packScanlines = (image: RawImage, palette: Palette | null, bitDepth: number, withAlpha: boolean) => {
+  const { width, height, data } = image;
+  if (palette) {
+    const rowBytes = Math.ceil((width * bitDepth) / 8);
+    const rows = new Uint8Array(height * rowBytes);
+    const perByte = 8 / bitDepth;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const shift = 8 - bitDepth * ((x % perByte) + 1);
+        rows[y * rowBytes + Math.floor(x / perByte)] |= palette.indices[y * width + x] << shift;
+      }
+    }
+    return { rows, rowBytes };
+  }
+
+  const bpp = withAlpha ? 4 : 3;
+  const rowBytes = width * bpp;
+  if (withAlpha) return { rows: data.slice(), rowBytes };
+  const rows = new Uint8Array(height * rowBytes);
+  for (let src = 0, dst = 0; src < data.length; src += 4, dst += 3) {
+    rows[dst] = data[src];
+    rows[dst + 1] = data[src + 1];
+    rows[dst + 2] = data[src + 2];
+  }
+  return { rows, rowBytes };
+};
+
+// Writes one row with the given filter type, preceded by the filter byte
+const filterRow = (type: number, row: Uint8Array, prev: Uint8Array | null, bpp: number, out: Uint8Array): void => {
+  out[0] = type;
+  for (let i = 0; i < row.length; i++) {
+    const a = i >= bpp ? row[i - bpp] : 0;
+    const b = prev ? prev[i] : 0;
+    const c = prev && i >= bpp ? prev[i - bpp] : 0;
+    const predicted = type === 1 ? a : type === 2 ? b : type === 3 ? (a + b) >>> 1 : type === 4 ? paeth(a, b, c) : 0;
+    out[i + 1] = (row[i] - predicted) & 0xff;
+  }
+};
+
+// Sum of the filtered bytes read as signed values: rows near zero deflate best
+const filterCost = (filtered: Uint8Array): number => {
+  let sum = 0;
+  for (let i = 1; i < filtered.length; i++) sum += filtered[i] < 128 ? filtered[i] : 256 - filtered[i];
+  return sum;
+};
+
+// Filters every row with whichever of the five filter types scores lowest, or all with None
+const filterScanlines = (rows: Uint8Array, rowBytes: number, height: number, bpp: number, adaptive: boolean): Uint8Array => {
+  const out = new Uint8Array(height * (rowBytes + 1));
+  const candidate = new Uint8Array(rowBytes + 1);
+  for (let y = 0; y < height; y++) {
+    const row = rows.subarray(y * rowBytes, (y + 1) * rowBytes);
+    const prev = y > 0 ? rows.subarray((y - 1) * rowBytes, y * rowBytes) : null;
+    const dst = out.subarray(y * (rowBytes + 1), (y + 1) * (rowBytes + 1));
+    if (!adaptive) {
+      dst.set(row, 1);
+      continue;
+    }
+    let best = Infinity;
+    for (let type = 0; type <= 4; type++) {
+      filterRow(type, row, prev, bpp, candidate);
+      const cost = filterCost(candidate);
+      if (cost < best) {
+        best = cost;
+        dst.set(candidate);
+      }
+    }
+  }
+  return out;
+};
+
+const paletteDepth = (colors: number): number => (colors <= 2 ? 1 : colors <= 4 ? 2 : colors <= 16 ? 4 : 8);
+
+/**
+ * Encodes RGBA pixels as a non-interlaced PNG: palette-based at the smallest
+ * depth that fits when there are at most 256 colours, else 8-bit RGB, or
+ * RGBA when any pixel isn't opaque. Palette rows are left unfiltered, as
+ * the spec suggests; the rest are filtered adaptively, like libpng does.
+ * Flat graphics that would deflate better unfiltered mostly fit a palette.
+ */
+export const encodePng = async (image: RawImage, ancillary: PngChunk[] = []): Promise<Uint8Array> => {
+  const { width, height } = image;
+  const palette = buildPalette(image);
+  const withAlpha = hasTransparency(image);
+  const bitDepth = palette ? paletteDepth(palette.colors.length / 4) : 8;
+  const bpp = palette ? 1 : withAlpha ? 4 : 3;
+  const { rows, rowBytes } = packScanlines(image, palette, bitDepth, withAlpha);
+
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = bitDepth;
+  ihdr[9] = palette ? 3 : withAlpha ? 6 : 2; // palette, RGBA or RGB
+  // compression, filter and interlace methods all 0
+
+  const paletteChunks: PngChunk[] = [];
+  if (palette) {
+    const plte = new Uint8Array((palette.colors.length / 4) * 3);
+    for (let i = 0; i * 3 < plte.length; i++) plte.set(palette.colors.subarray(i * 4, i * 4 + 3), i * 3);
+    paletteChunks.push({ type: "PLTE", data: plte });
+    if (palette.translucent) {
+      const trns = new Uint8Array(palette.translucent);
+      for (let i = 0; i < trns.length; i++) trns[i] = palette.colors[i * 4 + 3];
+      paletteChunks.push({ type: "tRNS", data: trns });
+    }
+  }
+
+  return buildPng([
+    { type: "IHDR", data: ihdr },
+    ...ancillary,
+    ...paletteChunks,
+    { type: "IDAT", data: await zlibCompress(filterScanlines(rows, rowBytes, height, bpp, !palette)) },
+    { type: "IEND", data: new Uint8Array(0) },
+  ]);
+};
@@ -0,0 +1,222 @@
+/**
+ * Forge providers.
+ * Each provider knows how to validate a path, where that path's page lives,
+ * how to pull an image out of the page, and optionally an API to ask when
+ * the page has none. GitHub is the default; ?host= picks another forge, and
+ * self-hosted GitLab or Gitea instances come from SELF_HOSTED_FORGES.
+ */
+
+import type { Env } from "./env";
+import { bestImage, type ScrapedPage } from "./meta";
+import { gitHubPageUrl, matchGitHubPage } from "./pages";
+
+export type ForgeKind = "github" | "gitlab" | "gitea" | "bitbucket";
+
+export interface Provider {
+  name: string; // the ?host= value
+  kind: ForgeKind;
+  baseUrl: string;
+  isValidPath: (path: string) => boolean;
+  // Lookup path for a request path: names lowercased, anything case-sensitive (git refs) kept
+  normalizePath: (path: string) => string;
+  // The path whose image stands in for this one (a repo's owner, a group's parent); null at the top
+  parentPath: (path: string) => string | null;
+  pageUrl: (path: string) => string;
+  extractImage: (page: ScrapedPage) => string | null;
+  // Every real page has an image, so a page without one is a login wall or abuse page, not a miss
+  pageAlwaysHasImage: boolean;
+  // Asked when the page has no image; null when the API has none either
+  fetchApiImage?: (path: string) => Promise<string | null>;
+}
+
+export const DEFAULT_HOST = "github";
+export const USER_AGENT = "Mozilla/5.0 (compatible; ghlogo/1.0)";
+
+const GITLAB_MAX_SEGMENTS = 20; // GitLab nests subgroups up to 20 deep
+
+const FORGE_NAME_REGEX = /^[a-z0-9][a-z0-9-]*$/;
+const FORGE_CONFIG_REGEX = /^(github|gitlab|gitea):(https?:\/\/[^\s,]+?)\/*$/;
+// Owner, group and repo names on the other forges (GitHub routes are in pages.ts); this also keeps "~" out of lookup keys
+const SEGMENT_REGEX = /^[\w.-]+$/;
+
+const segmentsOf = (path: string): string[] => path.split("/").filter(Boolean);
+
+const segmentsBetween =
+  (min: number, max: number) =>
+  (path: string): boolean => {
+    const segments = segmentsOf(path);
+    return segments.length >= min && segments.length <= max && segments.every((s) => SEGMENT_REGEX.test(s));
+  };
+
+const lowercasePath = (path: string): string => path.toLowerCase();
+
+const parentPath = (path: string): string | null => {
+  const segments = segmentsOf(path);
+  return segments.length < 2 ? null : `/${segments.slice(0, -1).join("/")}`;
+};
+
+const fetchJson = async (url: string): Promise<unknown> => {
+  try {
+    const response = await fetch(url, { headers: { "User-Agent": USER_AGENT, Accept: "application/json" } });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
+
+// Reads a string at a dotted path, treating "" as missing
+const pickString = (value: unknown, keys: string): string | null => {
+  let current = value;
+  for (const key of keys.split(".")) {
+    if (!current || typeof current !== "object") return null;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return typeof current === "string" && current ? current : null;
+};
+
+// Tries each API endpoint, and each field within it, until one has an avatar
+const firstAvatar = async (lookups: [string, string[]][]): Promise<string | null> => {
+  for (const [url, fields] of lookups) {
+    const body = await fetchJson(url);
+    for (const keys of fields) {
+      const avatar = pickString(body, keys);
+      if (avatar) return avatar;
+    }
+  }
+  return null;
+};
+
+export const createGitHubProvider = (baseUrl = "https://github.com", name = DEFAULT_HOST): Provider => ({
+  name,
+  kind: "github",
+  baseUrl,
+  isValidPath: (path) => matchGitHubPage(path) !== null,
+  normalizePath: (path) => matchGitHubPage(path)?.path ?? path.toLowerCase(),
+  parentPath: (path) => {
+    const page = matchGitHubPage(path);
+    return page?.owner && page.type !== "owner" ? `/${page.owner}` : null;
+  },
+  pageUrl: (path) => gitHubPageUrl(baseUrl, path),
+  extractImage: bestImage,
+  pageAlwaysHasImage: true,
+});
+
+// Paths are a namespace (user or nested groups) optionally followed by a project
+export const createGitLabProvider = (baseUrl = "https://gitlab.com", name = "gitlab"): Provider => ({
+  name,
+  kind: "gitlab",
+  baseUrl,
+  isValidPath: segmentsBetween(1, GITLAB_MAX_SEGMENTS),
+  normalizePath: lowercasePath,
+  parentPath,
+  pageUrl: (path) => `${baseUrl}${path}`,
+  extractImage: bestImage,
+  pageAlwaysHasImage: false,
+  fetchApiImage: (path) => {
+    const segments = segmentsOf(path);
+    const id = encodeURIComponent(segments.join("/"));
+    const api = `${baseUrl}/api/v4`;
+    const lookups: [string, string[]][] =
+      segments.length === 1
+        ? [[`${api}/groups/${id}`, ["avatar_url"]], [`${api}/users?username=${id}`, ["0.avatar_url"]]]
+        : [[`${api}/projects/${id}`, ["avatar_url", "namespace.avatar_url"]], [`${api}/groups/${id}`, ["avatar_url"]]];
+    return firstAvatar(lookups);
+  },
+});
+
+// Gitea and Forgejo, which Codeberg runs
+export const createGiteaProvider = (baseUrl = "https://codeberg.org", name = "codeberg"): Provider => ({
+  name,
+  kind: "gitea",
+  baseUrl,
+  isValidPath: segmentsBetween(1, 2),
+  normalizePath: lowercasePath,
+  parentPath,
+  pageUrl: (path) => `${baseUrl}${path}`,
+  extractImage: bestImage,
+  pageAlwaysHasImage: false,
+  fetchApiImage: (path) => {
+    const [owner, repo] = segmentsOf(path).map(encodeURIComponent);
+    const api = `${baseUrl}/api/v1`;
+    const lookups: [string, string[]][] = repo
+      ? [[`${api}/repos/${owner}/${repo}`, ["avatar_url", "owner.avatar_url"]]]
+      : [[`${api}/users/${owner}`, ["avatar_url"]], [`${api}/orgs/${owner}`, ["avatar_url"]]];
+    return firstAvatar(lookups);
+  },
+});
+
+// Bitbucket pages are rendered client-side, so the API does most of the work
+export const createBitbucketProvider = (): Provider => ({
+  name: "bitbucket",
+  kind: "bitbucket",
+  baseUrl: "https://bitbucket.org",
+  isValidPath: segmentsBetween(1, 2),
+  normalizePath: lowercasePath,
+  parentPath,
+  pageUrl: (path) => `https://bitbucket.org${path}`,
+  extractImage: bestImage,
+  pageAlwaysHasImage: false,
+  fetchApiImage: (path) => {
+    const [workspace, repo] = segmentsOf(path).map(encodeURIComponent);
+    const api = "https://api.bitbucket.org/2.0";
+    return firstAvatar(
+      repo
+        ? [[`${api}/repositories/${workspace}/${repo}`, ["links.avatar.href"]]]
+        : [[`${api}/workspaces/${workspace}`, ["links.avatar.href"]]],
+    );
+  },
+});
+
+// Bitbucket Data Center has a different API, so only bitbucket.org is supported
+const SELF_HOSTED_FACTORIES: Record<string, (baseUrl: string, name: string) => Provider> = {
+  github: createGitHubProvider,
+  gitlab: createGitLabProvider,
+  gitea: createGiteaProvider,
+};
+
+const BUILT_IN_PROVIDERS: Record<string, Provider> = {
+  github: createGitHubProvider(),
+  gitlab: createGitLabProvider(),
+  codeberg: createGiteaProvider(),
+  bitbucket: createBitbucketProvider(),
+};
+
+/**
+ * Parses SELF_HOSTED_FORGES: comma-separated name=kind:baseUrl entries, e.g.
+ * "work=gitlab:https://gitlab.example.com,git=gitea:https://git.example.org".
+ * Malformed entries are skipped.
+ */
+export const parseSelfHostedForges = (value: string): Record<string, Provider> => {
+  const providers: Record<string, Provider> = {};
+  for (const entry of value.split(",")) {
+    const eq = entry.indexOf("=");
+    const name = entry.slice(0, eq).trim().toLowerCase();
+    const config = entry.slice(eq + 1).trim().match(FORGE_CONFIG_REGEX);
+    if (eq < 0 || !FORGE_NAME_REGEX.test(name) || !config) continue;
+    providers[name] = SELF_HOSTED_FACTORIES[config[1]](config[2], name);
+  }
+  return providers;
+};
+
+// Parsed once per distinct config string, i.e. once per isolate in practice
+let selfHosted: { config: string; providers: Record<string, Provider> } | null = null;
+
+const selfHostedProviders = (env: Env): Record<string, Provider> => {
+  const config = env.SELF_HOSTED_FORGES ?? "";
+  if (selfHosted?.config !== config) selfHosted = { config, providers: parseSelfHostedForges(config) };
+  return selfHosted.providers;
+};
+
+// Configured forges win over built-ins of the same name
+export const resolveProvider = (host: string | null, env: Env): Provider | null => {
+  const name = (host ?? DEFAULT_HOST).toLowerCase();
+  return selfHostedProviders(env)[name] ?? BUILT_IN_PROVIDERS[name] ?? null;
+};
+
+/**
+ * Cache and coalescing key. GitHub keeps the bare path so existing cache
+ * entries stay valid; "~" can't appear in a GitHub owner name, so other
+ * forges can't collide with it.
+ */
+export const lookupKey = (provider: Provider, path: string): string =>
+  provider.name === DEFAULT_HOST ? path : `/~${provider.name}${path}`;
@@ -0,0 +1,64 @@
+/**
+ * Proxy mode (?proxy=1): stream image bytes through the worker instead of
+ * redirecting, for clients that can't follow a redirect off our domain.
+ * Only known image hosts are proxied; anything else (such as a caller's own
+ * fallback URL) still redirects, so this can't be used as an open proxy.
+ */
+
+import type { Env } from "./env";
+import { invalidParam, type ParsedParams } from "./params";
+import type { Provider } from "./providers";
+
+// Where forges serve og:images and avatars from; subdomains match too
+const PROXY_IMAGE_HOSTS = [
+  "githubusercontent.com",
+  "githubassets.com",
+  "gravatar.com",
+  "gitlab-static.net",
+  "bitbucket.org",
+  "atl-paas.net",
+];
+
+// Conditional request headers forwarded upstream, and validators passed back
+export const CONDITIONAL_HEADERS = ["If-None-Match", "If-Modified-Since"];
+export const VALIDATOR_HEADERS = ["ETag", "Last-Modified"];
+
+// Proxied bytes are someone else's but served from our origin: an SVG (a repo's logo.svg, say)
+// opened directly must not run scripts here, and nothing may be sniffed into HTML
+export const PROXY_SECURITY_HEADERS: Record<string, string> = {
+  "Content-Security-Policy": "default-src 'none'; sandbox",
+  "X-Content-Type-Options": "nosniff",
+};
+
+export const parseProxyParam = (params: URLSearchParams): ParsedParams<true> => {
+  const value = params.get("proxy");
+  if (value === null || value === "0" || value === "false") return { status: "none" };
+  if (value === "1" || value === "true") return { status: "ok", options: true };
+  return invalidParam("Invalid proxy. Use 1 or 0");
+};
+
+const matchesHost = (hostname: string, host: string): boolean => hostname === host || hostname.endsWith(`.${host}`);
+
+/**
+ * The built-in image hosts, the forge being looked up, and anything listed
+ * in PROXY_ALLOWED_HOSTS. Only https URLs are proxied.
+ */
+export const isProxyAllowed = (imageUrl: string, provider: Provider, env: Env): boolean => {
+  let url: URL;
+  try {
+    url = new URL(imageUrl);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "https:") return false;
+  const extra = (env.PROXY_ALLOWED_HOSTS ?? "").split(",").map((h) => h.trim().toLowerCase()).filter(Boolean);
+  const hosts = [...PROXY_IMAGE_HOSTS, new URL(provider.baseUrl).hostname, ...extra];
+  return hosts.some((host) => matchesHost(url.hostname, host));
+};
+
+// Whether the client's If-None-Match already names this ETag
+export const etagMatches = (ifNoneMatch: string | null, etag: string | null): boolean => {
+  if (!ifNoneMatch || !etag) return false;
+  const weak = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => tag.trim() === "*" || weak(tag) === weak(etag));
+};
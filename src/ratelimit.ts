@@ -0,0 +1,106 @@
+/**
+ * Token-bucket rate limits: one shared by every forge lookup so a crawler
+ * requesting random paths can't get our egress IP throttled, and an opt-in
+ * bucket per client IP. Embeds in GitHub READMEs all arrive through a few
+ * camo proxy IPs, so a per-client limit would throttle them first. With a
+ * RATE_LIMITER Durable Object bound, buckets are shared by every isolate;
+ * without one (or if it fails) each isolate keeps its own, which still stops
+ * a single client hammering one isolate.
+ */
+
+import type { Env } from "./env";
+
+interface Bucket {
+  tokens: number;
+  updated: number;
+}
+
+const DEFAULT_CLIENT_PER_MINUTE = 0; // off unless RATE_LIMIT is set
+const DEFAULT_UPSTREAM_PER_MINUTE = 600;
+const MAX_LOCAL_BUCKETS = 10_000; // least recently used buckets are dropped past this
+const UPSTREAM_BUCKET = "upstream";
+
+// In-memory buckets persist for worker isolate lifetime
+const localBuckets = new Map<string, Bucket>();
+
+// "0" turns a limit off; anything unparseable keeps the default
+const parsePerMinute = (value: string | undefined, fallback: number): number => {
+  const n = Number(value);
+  return value !== undefined && Number.isInteger(n) && n >= 0 ? n : fallback;
+};
+
+export const clientLimit = (env: Env): number => parsePerMinute(env.RATE_LIMIT, DEFAULT_CLIENT_PER_MINUTE);
+
+const upstreamLimit = (env: Env): number => parsePerMinute(env.UPSTREAM_RATE_LIMIT, DEFAULT_UPSTREAM_PER_MINUTE);
+
+/**
+ * Refills perMinute tokens a minute up to a burst of perMinute, then takes
+ * cost of them. Returns 0 when they were taken, otherwise the seconds until
+ * enough will have refilled.
+ */
+const takeTokens = (buckets: Map<string, Bucket>, key: string, cost: number, perMinute: number, now: number): number => {
+  const perMs = perMinute / 60_000;
+  const bucket = buckets.get(key) ?? { tokens: perMinute, updated: now };
+  bucket.tokens = Math.min(perMinute, bucket.tokens + (now - bucket.updated) * perMs);
+  bucket.updated = now;
+
+  // Re-inserting keeps the map in least recently used order
+  buckets.delete(key);
+  buckets.set(key, bucket);
+  if (buckets.size > MAX_LOCAL_BUCKETS) buckets.delete(buckets.keys().next().value!);
+
+  if (bucket.tokens >= cost) {
+    bucket.tokens -= cost;
+    return 0;
+  }
+  return Math.max(1, Math.ceil((cost - bucket.tokens) / perMs / 1000));
+};
+
+// One Durable Object per bucket, so each has a single-threaded owner
+export class RateLimiter implements DurableObject {
+  private buckets = new Map<string, Bucket>();
+
+  async fetch(request: Request): Promise<Response> {
+    const { cost, perMinute } = await request.json<{ cost: number; perMinute: number }>();
+    return Response.json({ retryAfter: takeTokens(this.buckets, "bucket", cost, perMinute, Date.now()) });
+  }
+}
+
+const take = async (env: Env, key: string, cost: number, perMinute: number): Promise<number> => {
+  if (perMinute === 0) return 0;
+  if (env.RATE_LIMITER) {
+    try {
+      const stub = env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(key));
+      const response = await stub.fetch("https://rate-limiter/take", {
+        method: "POST",
+        body: JSON.stringify({ cost, perMinute }),
+      });
+      const { retryAfter } = await response.json<{ retryAfter: number }>();
+      return retryAfter;
+    } catch {
+      // Fall back to this isolate's buckets rather than failing the request
+    }
+  }
+  return takeTokens(localBuckets, key, cost, perMinute, Date.now());
+};
+
+// The first four groups of an IPv6 address, expanding any "::"
+const ipv6Prefix = (ip: string): string => {
+  const [head, tail = ""] = ip.toLowerCase().split("::");
+  const headGroups = head ? head.split(":") : [];
+  const tailGroups = tail ? tail.split(":") : [];
+  const zeros = Array<string>(Math.max(0, 8 - headGroups.length - tailGroups.length)).fill("0");
+  return [...headGroups, ...zeros, ...tailGroups].slice(0, 4).join(":");
+};
+
+// IPv6 clients usually control a whole /64, so they share one bucket
+export const clientKey = (request: Request): string => {
+  const ip = request.headers.get("CF-Connecting-IP") ?? "unknown";
+  return ip.includes(":") ? `${ipv6Prefix(ip)}::/64` : ip;
+};
+
+// Batches cost one token per path, but never more than a full bucket
+export const takeClientTokens = (request: Request, env: Env, cost = 1): Promise<number> =>
+  take(env, `client:${clientKey(request)}`, Math.min(cost, clientLimit(env)), clientLimit(env));
+
+export const takeUpstreamToken = (env: Env): Promise<number> => take(env, UPSTREAM_BUCKET, 1, upstreamLimit(env));
@@ -0,0 +1,194 @@
+/**
+ * Resampling for ?w=, ?h=, ?fit= and ?dpr=.
+ * A separable Lanczos-3 filter, widened when shrinking so every source pixel
+ * contributes, on premultiplied alpha so transparent edges don't darken.
+ */
+
+import { createImage, type RawImage } from "./image";
+import { invalidParam, type ParsedParams } from "./params";
+
+export type Fit = "contain" | "cover" | "fill";
+
+export interface ResizeOptions {
+  width: number | null; // device pixels, dpr already applied
+  height: number | null;
+  fit: Fit;
+}
+
+// Caps output size (after dpr) to keep resampling inside Worker CPU limits
+export const MAX_OUTPUT_DIMENSION = 2048;
+const MAX_DPR = 4;
+const LANCZOS_LOBES = 3;
+
+const parseDimension = (value: string | null): number | null | undefined => {
+  if (value === null) return null;
+  if (!/^\d+$/.test(value)) return undefined;
+  const n = Number(value);
+  return n >= 1 && n <= MAX_OUTPUT_DIMENSION ? n : undefined;
+};
+
+export const parseResizeOptions = (params: URLSearchParams): ParsedParams<ResizeOptions> => {
+  const width = parseDimension(params.get("w"));
+  const height = parseDimension(params.get("h"));
+  if (width === undefined || height === undefined) {
+    return invalidParam(`Invalid w or h. Use a whole number from 1 to ${MAX_OUTPUT_DIMENSION}`);
+  }
+  if (width === null && height === null) return { status: "none" };
+
+  const fit = params.get("fit") ?? "contain";
+  if (fit !== "contain" && fit !== "cover" && fit !== "fill") {
+    return invalidParam("Invalid fit. Use contain, cover or fill");
+  }
+
+  const dprParam = params.get("dpr");
+  const dpr = dprParam === null ? 1 : Number(dprParam);
+  if (!/^\d+(?:\.\d+)?$/.test(dprParam ?? "1") || dpr < 1 || dpr > MAX_DPR) {
+    return invalidParam(`Invalid dpr. Use a number from 1 to ${MAX_DPR}`);
+  }
+  const scale = (n: number | null) => (n === null ? null : Math.min(Math.round(n * dpr), MAX_OUTPUT_DIMENSION));
+  return { status: "ok", options: { width: scale(width), height: scale(height), fit } };
+};
+
+export const resizeOptionsKey = (o: ResizeOptions): string => `${o.width ?? ""}x${o.height ?? ""} ${o.fit}`;
+
+interface Plan {
+  width: number;
+  height: number;
+  // Source region to resample; cover crops, everything else uses it all
+  cropX: number;
+  cropY: number;
+  cropWidth: number;
+  cropHeight: number;
+}
+
+const planResize = (srcWidth: number, srcHeight: number, o: ResizeOptions): Plan => {
+  const full = { cropX: 0, cropY: 0, cropWidth: srcWidth, cropHeight: srcHeight };
+  const proportional = (n: number) => Math.max(1, Math.round(n));
+  if (o.width === null || o.height === null) {
+    // One side given: keep the aspect ratio
+    const scale = o.width !== null ? o.width / srcWidth : o.height! / srcHeight;
+    const width = o.width ?? proportional(srcWidth * scale);
+    const height = o.height ?? proportional(srcHeight * scale);
+    return { width: Math.min(width, MAX_OUTPUT_DIMENSION), height: Math.min(height, MAX_OUTPUT_DIMENSION), ...full };
+  }
+  if (o.fit === "fill") return { width: o.width, height: o.height, ...full };
+  if (o.fit === "contain") {
+    const scale = Math.min(o.width / srcWidth, o.height / srcHeight);
+    return { width: proportional(srcWidth * scale), height: proportional(srcHeight * scale), ...full };
+  }
+  // cover: crop the centre of the source to the target's aspect ratio
+  const scale = Math.max(o.width / srcWidth, o.height / srcHeight);
+  const cropWidth = Math.min(srcWidth, Math.round(o.width / scale));
+  const cropHeight = Math.min(srcHeight, Math.round(o.height / scale));
+  return {
+    width: o.width,
+    height: o.height,
+    cropX: (srcWidth - cropWidth) >> 1,
+    cropY: (srcHeight - cropHeight) >> 1,
+    cropWidth,
+    cropHeight,
+  };
+};
+
+const sinc = (x: number): number => (x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x));
+const lanczos = (x: number): number => (Math.abs(x) < LANCZOS_LOBES ? sinc(x) * sinc(x / LANCZOS_LOBES) : 0);
+
+interface Contribution {
+  start: number; // first source index
+  weights: Float32Array; // normalized, one per source index from start
+}
+
+// Filter taps for each destination pixel along one axis
+const computeContributions = (srcStart: number, srcLength: number, dstLength: number): Contribution[] => {
+  const scale = srcLength / dstLength;
+  const stretch = Math.max(scale, 1);
+  const support = LANCZOS_LOBES * stretch;
+  const contributions: Contribution[] = [];
+  for (let i = 0; i < dstLength; i++) {
+    const center = (i + 0.5) * scale;
+    const first = Math.max(0, Math.floor(center - support));
+    const last = Math.min(srcLength - 1, Math.ceil(center + support));
+    const weights = new Float32Array(last - first + 1);
+    let total = 0;
+    for (let j = first; j <= last; j++) {
+      const w = lanczos((j + 0.5 - center) / stretch);
+      weights[j - first] = w;
+      total += w;
+    }
+    if (total) for (let k = 0; k < weights.length; k++) weights[k] /= total;
+    contributions.push({ start: srcStart + first, weights });
+  }
+  return contributions;
+};
+
+const clamp8 = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : Math.round(v));
+
+/**
+ * Resizes (and for cover, crops) an image. Returns null when the result
+ * would be identical to the input.
+ */
+export const resizeImage = (image: RawImage, options: ResizeOptions): RawImage | null => {
+  const plan = planResize(image.width, image.height, options);
+  const { width, height, cropX, cropY, cropWidth, cropHeight } = plan;
+  if (width === image.width && height === image.height && cropWidth === image.width && cropHeight === image.height) {
+    return null;
+  }
+
+  // Horizontal pass into a premultiplied float buffer, cropped rows only
+  const columns = computeContributions(cropX, cropWidth, width);
+  const src = image.data;
+  const tmp = new Float32Array(width * cropHeight * 4);
+  for (let y = 0; y < cropHeight; y++) {
+    const row = (cropY + y) * image.width;
+    for (let x = 0; x < width; x++) {
+      const { start, weights } = columns[x];
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const p = (row + start + k) * 4;
+        const wa = (weights[k] * src[p + 3]) / 255;
+        r += src[p] * wa;
+        g += src[p + 1] * wa;
+        b += src[p + 2] * wa;
+        a += weights[k] * src[p + 3];
+      }
+      const o = (y * width + x) * 4;
+      tmp[o] = r;
+      tmp[o + 1] = g;
+      tmp[o + 2] = b;
+      tmp[o + 3] = a;
+    }
+  }
+
+  // Vertical pass, then back to straight alpha
+  const rows = computeContributions(0, cropHeight, height);
+  const out = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    const { start, weights } = rows[y];
+    for (let x = 0; x < width; x++) {
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let a = 0;
+      for (let k = 0; k < weights.length; k++) {
+        const p = ((start + k) * width + x) * 4;
+        r += tmp[p] * weights[k];
+        g += tmp[p + 1] * weights[k];
+        b += tmp[p + 2] * weights[k];
+        a += tmp[p + 3] * weights[k];
+      }
+      const o = (y * width + x) * 4;
+      const alpha = clamp8(a);
+      out.data[o + 3] = alpha;
+      if (alpha) {
+        const unpremultiply = 255 / alpha;
+        out.data[o] = clamp8(r * unpremultiply);
+        out.data[o + 1] = clamp8(g * unpremultiply);
+        out.data[o + 2] = clamp8(b * unpremultiply);
+      }
+    }
+  }
+  return out;
+};
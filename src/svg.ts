@@ -0,0 +1,151 @@
+/**
+ * SVG badges and cards for /{owner}/{repo}.svg.
+ * Text is measured with approximate Verdana widths, as shields.io badges
+ * are, since a Worker has no font metrics. The avatar must be inlined as a
+ * data URI: SVGs loaded through <img> never fetch external resources.
+ */
+
+import { invalidParam, type ParsedParams } from "./params";
+
+export type SvgStyle = "badge" | "card";
+export type SvgTheme = "light" | "dark";
+
+export interface SvgOptions {
+  style: SvgStyle;
+  theme: SvgTheme;
+}
+
+export interface SvgData {
+  name: string; // owner or owner/repo
+  description: string | null;
+  stars: number | null;
+  avatar: string | null; // data URI
+}
+
+// Avatars are rendered at twice their display size for high-DPI screens
+export const BADGE_AVATAR_SIZE = 28;
+export const CARD_AVATAR_SIZE = 96;
+
+const FONT_FAMILY = "Verdana,Geneva,DejaVu Sans,sans-serif";
+
+const THEMES: Record<SvgTheme, { background: string; border: string; title: string; text: string; badge: string; badgeText: string }> = {
+  light: { background: "#ffffff", border: "#d0d7de", title: "#0969da", text: "#57606a", badge: "#007ec6", badgeText: "#ffffff" },
+  dark: { background: "#0d1117", border: "#30363d", title: "#58a6ff", text: "#8b949e", badge: "#30363d", badgeText: "#f0f6fc" },
+};
+
+const CARD_WIDTH = 400;
+const CARD_HEIGHT = 120;
+const CARD_TEXT_X = 84;
+const CARD_DESCRIPTION_LINES = 2;
+
+// The style always has a default, so there is no "none"
+export const parseSvgOptions = (params: URLSearchParams): Exclude<ParsedParams<SvgOptions>, { status: "none" }> => {
+  const style = params.get("style") ?? "badge";
+  if (style !== "badge" && style !== "card") return invalidParam("Invalid style. Use badge or card");
+  const theme = params.get("theme") ?? "light";
+  if (theme !== "light" && theme !== "dark") return invalidParam("Invalid theme. Use light or dark");
+  return { status: "ok", options: { style, theme } };
+};
+
+export const toPngDataUri = (png: Uint8Array): string => {
+  let binary = "";
+  for (let i = 0; i < png.length; i += 0x8000) binary += String.fromCharCode(...png.subarray(i, i + 0x8000));
+  return `data:image/png;base64,${btoa(binary)}`;
+};
+
+// Paths are lowercased for caching; recover the real casing from the page title when it has it
+export const displayName = (name: string, title: string | null): string => {
+  const i = title?.toLowerCase().indexOf(name) ?? -1;
+  return title && i >= 0 ? title.slice(i, i + name.length) : name;
+};
+
+// GitHub appends a call to action to every repo's og:description
+export const cleanDescription = (description: string | null): string | null =>
+  description?.replace(/\s*Contribute to \S+ development by creating an account on GitHub\.$/, "") || null;
+
+const escapeXml = (s: string): string =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[c]!);
+
+// Rough Verdana advance widths at 11px
+const charWidth = (c: string): number => {
+  if ("fijlrt.,:;!|'()[] ".includes(c)) return 4;
+  if ("mwMW".includes(c)) return 10;
+  if (c >= "A" && c <= "Z") return 7.5;
+  return 6.5;
+};
+
+const textWidth = (text: string, fontSize = 11): number =>
+  ([...text].reduce((sum, c) => sum + charWidth(c), 0) * fontSize) / 11;
+
+// 1234 -> 1.2k, 170889 -> 171k
+export const formatCount = (n: number): string => {
+  if (n < 1000) return String(n);
+  const [value, suffix] = n < 1e6 ? [n / 1e3, "k"] : [n / 1e6, "M"];
+  return `${value < 100 ? Number(value.toFixed(1)) : Math.round(value)}${suffix}`;
+};
+
+// Greedy word wrap, ending the last line with an ellipsis if text remains
+const wrapText = (text: string, maxWidth: number, maxLines: number, fontSize: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  const words = text.split(/\s+/).filter(Boolean);
+  for (let i = 0; i < words.length; i++) {
+    const candidate = line ? `${line} ${words[i]}` : words[i];
+    if (textWidth(candidate, fontSize) <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = words[i];
+    if (lines.length === maxLines) {
+      let last = lines[maxLines - 1];
+      while (last && textWidth(`${last}…`, fontSize) > maxWidth) last = last.slice(0, -1);
+      lines[maxLines - 1] = `${last.trimEnd()}…`;
+      return lines;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+export const renderBadge = (data: SvgData, theme: SvgTheme): string => {
+  const colors = THEMES[theme];
+  const label = data.avatar ? 20 : 0;
+  const value = Math.round(textWidth(data.name)) + 12;
+  const width = label + value;
+  const name = escapeXml(data.name);
+  const avatar = data.avatar
+    ? `<rect width="${label}" height="20" fill="#555"/><image x="3" y="3" width="14" height="14" href="${data.avatar}"/>`
+    : "";
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${name}">
+<title>${name}</title>
+<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>
+<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>
+<g clip-path="url(#r)"><rect x="${label}" width="${value}" height="20" fill="${colors.badge}"/>${avatar}<rect width="${width}" height="20" fill="url(#s)"/></g>
+<g fill="${colors.badgeText}" text-anchor="middle" font-family="${FONT_FAMILY}" font-size="11"><text x="${label + value / 2}" y="15" fill="#010101" fill-opacity=".3">${name}</text><text x="${label + value / 2}" y="14">${name}</text></g>
+</svg>`;
+};
+
+export const renderCard = (data: SvgData, theme: SvgTheme): string => {
+  const colors = THEMES[theme];
+  const name = escapeXml(data.name);
+  const textWidthAvailable = CARD_WIDTH - CARD_TEXT_X - 20;
+  const description = data.description
+    ? wrapText(data.description, textWidthAvailable, CARD_DESCRIPTION_LINES, 12)
+        .map((line, i) => `<text x="${CARD_TEXT_X}" y="${64 + i * 17}">${escapeXml(line)}</text>`)
+        .join("")
+    : "";
+  const stars = data.stars === null ? "" : `<text x="${CARD_TEXT_X}" y="104">★ ${formatCount(data.stars)}</text>`;
+  const avatar = data.avatar
+    ? `<clipPath id="a"><circle cx="44" cy="44" r="24"/></clipPath><image x="20" y="20" width="48" height="48" href="${data.avatar}" clip-path="url(#a)"/>`
+    : `<circle cx="44" cy="44" r="24" fill="${colors.border}"/>`;
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CARD_WIDTH}" height="${CARD_HEIGHT}" viewBox="0 0 ${CARD_WIDTH} ${CARD_HEIGHT}" role="img" aria-label="${name}">
+<title>${name}</title>
+<rect x="0.5" y="0.5" width="${CARD_WIDTH - 1}" height="${CARD_HEIGHT - 1}" rx="6" fill="${colors.background}" stroke="${colors.border}"/>
+${avatar}
+<g font-family="${FONT_FAMILY}">
+<text x="${CARD_TEXT_X}" y="40" font-size="16" font-weight="bold" fill="${colors.title}">${escapeXml(wrapText(data.name, textWidthAvailable, 1, 16)[0] ?? "")}</text>
+<g font-size="12" fill="${colors.text}">${description}${stars}</g>
+</g>
+</svg>`;
+};
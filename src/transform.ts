@@ -0,0 +1,81 @@
+/**
+ * Image transform pipeline.
+ * Decodes once, pads to the requested ratio, resizes, masks, then re-encodes
+ * as PNG or WebP. Padding runs first so ?ratio=1:1&w=64 gives a 64x64 tile; the mask
+ * runs last so its antialiased edge is at the output resolution.
+ */
+
+import { decodeImage, readImageSize } from "./decode";
+import { encodeImage, type EncodedImage, type OutputFormat } from "./encode";
+import { MAX_DECODED_PIXELS, type RawImage } from "./image";
+import { cropSquare, maskImage, maskOptionsKey, parseMaskOptions, type MaskOptions } from "./mask";
+import { padImage, padOptionsKey, paddedSize, parsePadOptions, type PadOptions } from "./pad";
+import type { ParsedParams } from "./params";
+import { parseResizeOptions, resizeImage, resizeOptionsKey, type ResizeOptions } from "./resize";
+
+export interface TransformOptions {
+  pad: PadOptions | null;
+  resize: ResizeOptions | null;
+  mask: MaskOptions | null;
+}
+
+export const parseTransformOptions = (params: URLSearchParams): ParsedParams<TransformOptions> => {
+  const pad = parsePadOptions(params);
+  if (pad.status === "invalid") return pad;
+  const resize = parseResizeOptions(params);
+  if (resize.status === "invalid") return resize;
+  const mask = parseMaskOptions(params);
+  if (mask.status === "invalid") return mask;
+  if (pad.status === "none" && resize.status === "none" && mask.status === "none") return { status: "none" };
+  return {
+    status: "ok",
+    options: {
+      pad: pad.status === "ok" ? pad.options : null,
+      resize: resize.status === "ok" ? resize.options : null,
+      mask: mask.status === "ok" ? mask.options : null,
+    },
+  };
+};
+
+// Stable key for everything that affects the transformed output
+export const transformKey = (o: TransformOptions): string =>
+  `${o.pad ? padOptionsKey(o.pad) : "-"} ${o.resize ? resizeOptionsKey(o.resize) : "-"} ${o.mask ? maskOptionsKey(o.mask) : "-"}`;
+
+// Returns null when no step changes the image
+export const transformImage = (image: RawImage, options: TransformOptions): RawImage | null => {
+  const padded = options.pad && padImage(image, options.pad);
+  // Circles are cut from the centre square, before resizing so w/h apply to the square
+  const cropped = options.mask?.shape === "circle" ? cropSquare(padded ?? image) : null;
+  const resized = options.resize && resizeImage(cropped ?? padded ?? image, options.resize);
+  const masked = options.mask && maskImage(resized ?? cropped ?? padded ?? image, options.mask);
+  return masked ?? resized ?? cropped ?? padded;
+};
+
+// Both the source and its padded copy must stay under the cap; resizing and masks never grow past it
+const fitsPixelBudget = (width: number, height: number, options: TransformOptions): boolean => {
+  if (width * height > MAX_DECODED_PIXELS) return false;
+  const padded = options.pad && paddedSize(width, height, options.pad);
+  return !padded || padded.width * padded.height <= MAX_DECODED_PIXELS;
+};
+
+/**
+ * Returns null when the source can't be decoded, is too large, or no step changes it,
+ * in which case the caller should serve the original.
+ */
+export const transformAndEncode = async (
+  bytes: Uint8Array,
+  options: TransformOptions,
+  format: OutputFormat,
+): Promise<EncodedImage | null> => {
+  // Checked from the header, before anything is decoded; the decoders check again for headers that lie
+  const size = readImageSize(bytes);
+  if (size && !fitsPixelBudget(size.width, size.height, options)) return null;
+
+  const decoded = await decodeImage(bytes);
+  if (!decoded) return null;
+
+  const result = transformImage(decoded, options);
+  if (!result) return null;
+
+  return encodeImage(result, format, decoded.ancillary);
+};
@@ -0,0 +1,1105 @@
+/**
+ * VP8 key frame decoder (RFC 6386), the codec inside lossy WebP.
+ * Produces full-resolution luma and half-resolution chroma planes; colour
+ * conversion and alpha are handled by the WebP container in webp.ts.
+ */
+
+import { MAX_DECODED_PIXELS } from "./image";
+
+export interface Vp8Planes {
+  width: number;
+  height: number;
+  y: Uint8Array; // yStride bytes per row, rows padded to whole macroblocks
+  u: Uint8Array; // uvStride bytes per row
+  v: Uint8Array;
+  yStride: number;
+  uvStride: number;
+}
+
+// Quantizer step for DC coefficients, indexed by quantizer level (RFC 6386 14.1)
+const DC_TABLE = new Uint8Array([
+  4, 5, 6, 7, 8, 9, 10, 10, 11, 12, 13, 14, 15, 16, 17, 17, 18, 19, 20, 20, 21, 21,
+  22, 22, 23, 23, 24, 25, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 37, 37, 38, 39,
+  40, 41, 42, 43, 44, 45, 46, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58, 59, 60,
+  61, 62, 63, 64, 65, 66, 67, 68, 69, 70, 71, 72, 73, 74, 75, 76, 76, 77, 78, 79, 80, 81,
+  82, 83, 84, 85, 86, 87, 88, 89, 91, 93, 95, 96, 98, 100, 101, 102, 104, 106, 108, 110, 112, 114,
+  116, 118, 122, 124, 126, 128, 130, 132, 134, 136, 138, 140, 143, 145, 148, 151, 154, 157,
+]);
+
+// Quantizer step for AC coefficients
+const AC_TABLE = new Uint16Array([
+  4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20, 21, 22, 23,
+  24, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 37, 38, 39, 40, 41, 42, 43,
+  44, 45, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58, 60, 62, 64, 66, 68,
+  70, 72, 74, 76, 78, 80, 82, 84, 86, 88, 90, 92, 94, 96, 98, 100, 102, 104, 106, 108,
+  110, 112, 114, 116, 119, 122, 125, 128, 131, 134, 137, 140, 143, 146, 149, 152, 155, 158, 161, 164,
+  167, 170, 173, 177, 181, 185, 189, 193, 197, 201, 205, 209, 213, 217, 221, 225, 229, 234, 239, 245,
+  249, 254, 259, 264, 269, 274, 279, 284,
+]);
+
+// Default token probabilities: [type][band][context][node], flattened
+const COEFF_PROBS = new Uint8Array([
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  253, 136, 254, 255, 228, 219, 128, 128, 128, 128, 128,
+  189, 129, 242, 255, 227, 213, 255, 219, 128, 128, 128,
+  106, 126, 227, 252, 214, 209, 255, 255, 128, 128, 128,
+  1, 98, 248, 255, 236, 226, 255, 255, 128, 128, 128,
+  181, 133, 238, 254, 221, 234, 255, 154, 128, 128, 128,
+  78, 134, 202, 247, 198, 180, 255, 219, 128, 128, 128,
+  1, 185, 249, 255, 243, 255, 128, 128, 128, 128, 128,
+  184, 150, 247, 255, 236, 224, 128, 128, 128, 128, 128,
+  77, 110, 216, 255, 236, 230, 128, 128, 128, 128, 128,
+  1, 101, 251, 255, 241, 255, 128, 128, 128, 128, 128,
+  170, 139, 241, 252, 236, 209, 255, 255, 128, 128, 128,
+  37, 116, 196, 243, 228, 255, 255, 255, 128, 128, 128,
+  1, 204, 254, 255, 245, 255, 128, 128, 128, 128, 128,
+  207, 160, 250, 255, 238, 128, 128, 128, 128, 128, 128,
+  102, 103, 231, 255, 211, 171, 128, 128, 128, 128, 128,
+  1, 152, 252, 255, 240, 255, 128, 128, 128, 128, 128,
+  177, 135, 243, 255, 234, 225, 128, 128, 128, 128, 128,
+  80, 129, 211, 255, 194, 224, 128, 128, 128, 128, 128,
+  1, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  246, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  255, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  198, 35, 237, 223, 193, 187, 162, 160, 145, 155, 62,
+  131, 45, 198, 221, 172, 176, 220, 157, 252, 221, 1,
+  68, 47, 146, 208, 149, 167, 221, 162, 255, 223, 128,
+  1, 149, 241, 255, 221, 224, 255, 255, 128, 128, 128,
+  184, 141, 234, 253, 222, 220, 255, 199, 128, 128, 128,
+  81, 99, 181, 242, 176, 190, 249, 202, 255, 255, 128,
+  1, 129, 232, 253, 214, 197, 242, 196, 255, 255, 128,
+  99, 121, 210, 250, 201, 198, 255, 202, 128, 128, 128,
+  23, 91, 163, 242, 170, 187, 247, 210, 255, 255, 128,
+  1, 200, 246, 255, 234, 255, 128, 128, 128, 128, 128,
+  109, 178, 241, 255, 231, 245, 255, 255, 128, 128, 128,
+  44, 130, 201, 253, 205, 192, 255, 255, 128, 128, 128,
+  1, 132, 239, 251, 219, 209, 255, 165, 128, 128, 128,
+  94, 136, 225, 251, 218, 190, 255, 255, 128, 128, 128,
+  22, 100, 174, 245, 186, 161, 255, 199, 128, 128, 128,
+  1, 182, 249, 255, 232, 235, 128, 128, 128, 128, 128,
+  124, 143, 241, 255, 227, 234, 128, 128, 128, 128, 128,
+  35, 77, 181, 251, 193, 211, 255, 205, 128, 128, 128,
+  1, 157, 247, 255, 236, 231, 255, 255, 128, 128, 128,
+  121, 141, 235, 255, 225, 227, 255, 255, 128, 128, 128,
+  45, 99, 188, 251, 195, 217, 255, 224, 128, 128, 128,
+  1, 1, 251, 255, 213, 255, 128, 128, 128, 128, 128,
+  203, 1, 248, 255, 255, 128, 128, 128, 128, 128, 128,
+  137, 1, 177, 255, 224, 255, 128, 128, 128, 128, 128,
+  253, 9, 248, 251, 207, 208, 255, 192, 128, 128, 128,
+  175, 13, 224, 243, 193, 185, 249, 198, 255, 255, 128,
+  73, 17, 171, 221, 161, 179, 236, 167, 255, 234, 128,
+  1, 95, 247, 253, 212, 183, 255, 255, 128, 128, 128,
+  239, 90, 244, 250, 211, 209, 255, 255, 128, 128, 128,
+  155, 77, 195, 248, 188, 195, 255, 255, 128, 128, 128,
+  1, 24, 239, 251, 218, 219, 255, 205, 128, 128, 128,
+  201, 51, 219, 255, 196, 186, 128, 128, 128, 128, 128,
+  69, 46, 190, 239, 201, 218, 255, 228, 128, 128, 128,
+  1, 191, 251, 255, 255, 128, 128, 128, 128, 128, 128,
+  223, 165, 249, 255, 213, 255, 128, 128, 128, 128, 128,
+  141, 124, 248, 255, 255, 128, 128, 128, 128, 128, 128,
+  1, 16, 248, 255, 255, 128, 128, 128, 128, 128, 128,
+  190, 36, 230, 255, 236, 255, 128, 128, 128, 128, 128,
+  149, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  1, 226, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  247, 192, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  240, 128, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  1, 134, 252, 255, 255, 128, 128, 128, 128, 128, 128,
+  213, 62, 250, 255, 255, 128, 128, 128, 128, 128, 128,
+  55, 93, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  128, 128, 128, 128, 128, 128, 128, 128, 128, 128, 128,
+  202, 24, 213, 235, 186, 191, 220, 160, 240, 175, 255,
+  126, 38, 182, 232, 169, 184, 228, 174, 255, 187, 128,
+  61, 46, 138, 219, 151, 178, 240, 170, 255, 216, 128,
+  1, 112, 230, 250, 199, 191, 247, 159, 255, 255, 128,
+  166, 109, 228, 252, 211, 215, 255, 174, 128, 128, 128,
+  39, 77, 162, 232, 172, 180, 245, 178, 255, 255, 128,
+  1, 52, 220, 246, 198, 199, 249, 220, 255, 255, 128,
+  124, 74, 191, 243, 183, 193, 250, 221, 255, 255, 128,
+  24, 71, 130, 219, 154, 170, 243, 182, 255, 255, 128,
+  1, 182, 225, 249, 219, 240, 255, 224, 128, 128, 128,
+  149, 150, 226, 252, 216, 205, 255, 171, 128, 128, 128,
+  28, 108, 170, 242, 183, 194, 254, 223, 255, 255, 128,
+  1, 81, 230, 252, 204, 203, 255, 192, 128, 128, 128,
+  123, 102, 209, 247, 188, 196, 255, 233, 128, 128, 128,
+  20, 95, 153, 243, 164, 173, 255, 203, 128, 128, 128,
+  1, 222, 248, 255, 216, 213, 128, 128, 128, 128, 128,
+  168, 175, 246, 252, 235, 205, 255, 255, 128, 128, 128,
+  47, 116, 215, 255, 211, 212, 255, 255, 128, 128, 128,
+  1, 121, 236, 253, 212, 214, 255, 255, 128, 128, 128,
+  141, 84, 213, 252, 201, 202, 255, 219, 128, 128, 128,
+  42, 80, 160, 240, 162, 185, 255, 205, 128, 128, 128,
+  1, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  244, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+  238, 1, 255, 128, 128, 128, 128, 128, 128, 128, 128,
+]);
+
+// Probability that the frame header overrides each token probability
+const COEFF_UPDATE_PROBS = new Uint8Array([
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  176, 246, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  223, 241, 252, 255, 255, 255, 255, 255, 255, 255, 255,
+  249, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 244, 252, 255, 255, 255, 255, 255, 255, 255, 255,
+  234, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  253, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 246, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  239, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 248, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  251, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  251, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 254, 253, 255, 254, 255, 255, 255, 255, 255, 255,
+  250, 255, 254, 255, 254, 255, 255, 255, 255, 255, 255,
+  254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  217, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  225, 252, 241, 253, 255, 255, 254, 255, 255, 255, 255,
+  234, 250, 241, 250, 253, 255, 253, 254, 255, 255, 255,
+  255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  223, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  238, 253, 254, 254, 255, 255, 255, 255, 255, 255, 255,
+  255, 248, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  249, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 253, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  247, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  252, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  253, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 254, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+  250, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  186, 251, 250, 255, 255, 255, 255, 255, 255, 255, 255,
+  234, 251, 244, 254, 255, 255, 255, 255, 255, 255, 255,
+  251, 251, 243, 253, 254, 255, 254, 255, 255, 255, 255,
+  255, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  236, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  251, 253, 253, 254, 254, 255, 255, 255, 255, 255, 255,
+  255, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 254, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  248, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  250, 254, 252, 254, 255, 255, 255, 255, 255, 255, 255,
+  248, 254, 249, 253, 255, 255, 255, 255, 255, 255, 255,
+  255, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+  246, 253, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+  252, 254, 251, 254, 254, 255, 255, 255, 255, 255, 255,
+  255, 254, 252, 255, 255, 255, 255, 255, 255, 255, 255,
+  248, 254, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+  253, 255, 254, 254, 255, 255, 255, 255, 255, 255, 255,
+  255, 251, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  245, 251, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  253, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 251, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+  252, 253, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 254, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 252, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  249, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 254, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 253, 255, 255, 255, 255, 255, 255, 255, 255,
+  250, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  254, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+  255, 255, 255, 255, 255, 255, 255, 255, 255, 255, 255,
+]);
+
+// Key frame 4x4 intra mode probabilities: [above mode][left mode][node], flattened
+const BMODE_PROBS = new Uint8Array([
+  231, 120, 48, 89, 115, 113, 120, 152, 112,
+  152, 179, 64, 126, 170, 118, 46, 70, 95,
+  175, 69, 143, 80, 85, 82, 72, 155, 103,
+  56, 58, 10, 171, 218, 189, 17, 13, 152,
+  114, 26, 17, 163, 44, 195, 21, 10, 173,
+  121, 24, 80, 195, 26, 62, 44, 64, 85,
+  144, 71, 10, 38, 171, 213, 144, 34, 26,
+  170, 46, 55, 19, 136, 160, 33, 206, 71,
+  63, 20, 8, 114, 114, 208, 12, 9, 226,
+  81, 40, 11, 96, 182, 84, 29, 16, 36,
+  134, 183, 89, 137, 98, 101, 106, 165, 148,
+  72, 187, 100, 130, 157, 111, 32, 75, 80,
+  66, 102, 167, 99, 74, 62, 40, 234, 128,
+  41, 53, 9, 178, 241, 141, 26, 8, 107,
+  74, 43, 26, 146, 73, 166, 49, 23, 157,
+  65, 38, 105, 160, 51, 52, 31, 115, 128,
+  104, 79, 12, 27, 217, 255, 87, 17, 7,
+  87, 68, 71, 44, 114, 51, 15, 186, 23,
+  47, 41, 14, 110, 182, 183, 21, 17, 194,
+  66, 45, 25, 102, 197, 189, 23, 18, 22,
+  88, 88, 147, 150, 42, 46, 45, 196, 205,
+  43, 97, 183, 117, 85, 38, 35, 179, 61,
+  39, 53, 200, 87, 26, 21, 43, 232, 171,
+  56, 34, 51, 104, 114, 102, 29, 93, 77,
+  39, 28, 85, 171, 58, 165, 90, 98, 64,
+  34, 22, 116, 206, 23, 34, 43, 166, 73,
+  107, 54, 32, 26, 51, 1, 81, 43, 31,
+  68, 25, 106, 22, 64, 171, 36, 225, 114,
+  34, 19, 21, 102, 132, 188, 16, 76, 124,
+  62, 18, 78, 95, 85, 57, 50, 48, 51,
+  193, 101, 35, 159, 215, 111, 89, 46, 111,
+  60, 148, 31, 172, 219, 228, 21, 18, 111,
+  112, 113, 77, 85, 179, 255, 38, 120, 114,
+  40, 42, 1, 196, 245, 209, 10, 25, 109,
+  88, 43, 29, 140, 166, 213, 37, 43, 154,
+  61, 63, 30, 155, 67, 45, 68, 1, 209,
+  100, 80, 8, 43, 154, 1, 51, 26, 71,
+  142, 78, 78, 16, 255, 128, 34, 197, 171,
+  41, 40, 5, 102, 211, 183, 4, 1, 221,
+  51, 50, 17, 168, 209, 192, 23, 25, 82,
+  138, 31, 36, 171, 27, 166, 38, 44, 229,
+  67, 87, 58, 169, 82, 115, 26, 59, 179,
+  63, 59, 90, 180, 59, 166, 93, 73, 154,
+  40, 40, 21, 116, 143, 209, 34, 39, 175,
+  47, 15, 16, 183, 34, 223, 49, 45, 183,
+  46, 17, 33, 183, 6, 98, 15, 32, 183,
+  57, 46, 22, 24, 128, 1, 54, 17, 37,
+  65, 32, 73, 115, 28, 128, 23, 128, 205,
+  40, 3, 9, 115, 51, 192, 18, 6, 223,
+  87, 37, 9, 115, 59, 77, 64, 21, 47,
+  104, 55, 44, 218, 9, 54, 53, 130, 226,
+  64, 90, 70, 205, 40, 41, 23, 26, 57,
+  54, 57, 112, 184, 5, 41, 38, 166, 213,
+  30, 34, 26, 133, 152, 116, 10, 32, 134,
+  39, 19, 53, 221, 26, 114, 32, 73, 255,
+  31, 9, 65, 234, 2, 15, 1, 118, 73,
+  75, 32, 12, 51, 192, 255, 160, 43, 51,
+  88, 31, 35, 67, 102, 85, 55, 186, 85,
+  56, 21, 23, 111, 59, 205, 45, 37, 192,
+  55, 38, 70, 124, 73, 102, 1, 34, 98,
+  125, 98, 42, 88, 104, 85, 117, 175, 82,
+  95, 84, 53, 89, 128, 100, 113, 101, 45,
+  75, 79, 123, 47, 51, 128, 81, 171, 1,
+  57, 17, 5, 71, 102, 57, 53, 41, 49,
+  38, 33, 13, 121, 57, 73, 26, 1, 85,
+  41, 10, 67, 138, 77, 110, 90, 47, 114,
+  115, 21, 2, 10, 102, 255, 166, 23, 6,
+  101, 29, 16, 10, 85, 128, 101, 196, 26,
+  57, 18, 10, 102, 102, 213, 34, 20, 43,
+  117, 20, 15, 36, 163, 128, 68, 1, 26,
+  102, 61, 71, 37, 34, 53, 31, 243, 192,
+  69, 60, 71, 38, 73, 119, 28, 222, 37,
+  68, 45, 128, 34, 1, 47, 11, 245, 171,
+  62, 17, 19, 70, 146, 85, 55, 62, 70,
+  37, 43, 37, 154, 100, 163, 85, 160, 1,
+  63, 9, 92, 136, 28, 64, 32, 201, 85,
+  75, 15, 9, 9, 64, 255, 184, 119, 16,
+  86, 6, 28, 5, 64, 255, 25, 248, 1,
+  56, 8, 17, 132, 137, 255, 55, 116, 128,
+  58, 15, 20, 82, 135, 57, 26, 121, 40,
+  164, 50, 31, 137, 154, 133, 25, 35, 218,
+  51, 103, 44, 131, 131, 123, 31, 6, 158,
+  86, 40, 64, 135, 148, 224, 45, 183, 128,
+  22, 26, 17, 131, 240, 154, 14, 1, 209,
+  45, 16, 21, 91, 64, 222, 7, 1, 197,
+  56, 21, 39, 155, 60, 138, 23, 102, 213,
+  83, 12, 13, 54, 192, 255, 68, 47, 28,
+  85, 26, 85, 85, 128, 128, 32, 146, 171,
+  18, 11, 7, 63, 144, 171, 4, 4, 246,
+  35, 27, 10, 146, 174, 171, 12, 26, 128,
+  190, 80, 35, 99, 180, 80, 126, 54, 45,
+  85, 126, 47, 87, 176, 51, 41, 20, 32,
+  101, 75, 128, 139, 118, 146, 116, 128, 85,
+  56, 41, 15, 176, 236, 85, 37, 9, 62,
+  71, 30, 17, 119, 118, 255, 17, 18, 138,
+  101, 38, 60, 138, 55, 70, 43, 26, 142,
+  146, 36, 19, 30, 171, 255, 97, 27, 20,
+  138, 45, 61, 62, 219, 1, 81, 188, 64,
+  32, 41, 20, 117, 151, 142, 20, 21, 163,
+  112, 19, 12, 61, 195, 128, 48, 4, 24,
+]);
+
+// Coefficient band of each scan position, plus a sentinel for position 16
+const BANDS = [0, 1, 2, 3, 6, 4, 5, 6, 6, 6, 6, 6, 6, 6, 6, 7, 0];
+
+// Maps scan position to raster position within a 4x4 block
+const ZIGZAG = [0, 1, 4, 8, 5, 2, 3, 6, 9, 12, 13, 10, 7, 11, 14, 15];
+
+// Extra-bit probabilities for DCT_CAT3..DCT_CAT6 tokens
+const CAT_PROBS = [
+  [173, 148, 140],
+  [176, 155, 140, 135],
+  [180, 157, 141, 134, 130],
+  [254, 254, 243, 230, 196, 177, 153, 140, 133, 130, 129],
+];
+
+// Intra modes. The 4x4 modes share numbering with the 16x16 and chroma
+// modes for DC/TM/VE/HE, which is what lets 16x16 macroblocks seed the 4x4
+// mode contexts of their neighbours.
+const DC_PRED = 0;
+const TM_PRED = 1;
+const VE_PRED = 2;
+const HE_PRED = 3;
+const RD_PRED = 4;
+const VR_PRED = 5;
+const LD_PRED = 6;
+const VL_PRED = 7;
+const HD_PRED = 8;
+const HU_PRED = 9;
+
+// 4x4 mode tree: positive entries index the next node pair, the rest are
+// negated leaves (DC_PRED is 0, so it ends the walk as well)
+const BMODE_TREE = [
+  -DC_PRED, 1, -TM_PRED, 2, -VE_PRED, 3, 4, 6, -HE_PRED, 5, -RD_PRED, -VR_PRED, -LD_PRED, 7, -VL_PRED, 8, -HD_PRED,
+  -HU_PRED,
+];
+
+// Work buffer layout: a 16x16 (or 8x8) block at row 1, column 8, with the
+// row above it and the column to its left holding the prediction context
+const BPS = 32;
+const Y_OFF = BPS + 8;
+
+interface BoolDecoder {
+  bit: (prob: number) => number;
+  literal: (bits: number) => number;
+  signed: (bits: number) => number;
+  flag: () => boolean;
+}
+
+const createBoolDecoder = (data: Uint8Array, start: number, end: number): BoolDecoder => {
+  let pos = start;
+  let range = 255;
+  let bitCount = 0;
+  const next = () => (pos < end ? data[pos++] : 0); // past the end reads as zeros
+  let value = (next() << 8) | next();
+
+  const bit = (prob: number): number => {
+    const split = 1 + (((range - 1) * prob) >> 8);
+    const bigSplit = split << 8;
+    let result = 0;
+    if (value >= bigSplit) {
+      result = 1;
+      range -= split;
+      value -= bigSplit;
+    } else {
+      range = split;
+    }
+    while (range < 128) {
+      value <<= 1;
+      range <<= 1;
+      if (++bitCount === 8) {
+        bitCount = 0;
+        value |= next();
+      }
+    }
+    return result;
+  };
+
+  const literal = (bits: number): number => {
+    let v = 0;
+    while (bits-- > 0) v = (v << 1) | bit(128);
+    return v;
+  };
+
+  // Magnitude first, then the sign
+  const signed = (bits: number): number => {
+    const v = literal(bits);
+    return bit(128) ? -v : v;
+  };
+
+  return { bit, literal, signed, flag: () => bit(128) === 1 };
+};
+
+interface Quant {
+  y1: [number, number]; // [dc, ac] step sizes
+  y2: [number, number];
+  uv: [number, number];
+}
+
+interface FrameHeader {
+  mbWidth: number;
+  mbHeight: number;
+  segmentMap: boolean;
+  segmentProbs: number[];
+  quant: Quant[]; // one per segment
+  filterLevels: number[]; // one per segment
+  filter: "none" | "simple" | "normal"; // none whenever the frame level is 0
+  sharpness: number;
+  refLfDelta: number;
+  modeLfDelta: number;
+  skipProb: number; // 0 when macroblocks carry no skip flag
+  coeffProbs: Uint8Array;
+  parts: BoolDecoder[];
+}
+
+const clip = (v: number, max: number): number => (v < 0 ? 0 : v > max ? max : v);
+const clip8 = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+const parseHeader = (data: Uint8Array, br: BoolDecoder, mbWidth: number, mbHeight: number, partStart: number) => {
+  br.literal(2); // colour space and clamping type: only one of each is defined
+
+  const segmentQuant = [0, 0, 0, 0];
+  const segmentFilter = [0, 0, 0, 0];
+  const segmentProbs = [255, 255, 255];
+  const segmented = br.flag();
+  let segmentMap = false;
+  let absolute = false;
+  if (segmented) {
+    segmentMap = br.flag();
+    if (br.flag()) {
+      absolute = br.flag();
+      for (let s = 0; s < 4; s++) segmentQuant[s] = br.flag() ? br.signed(7) : 0;
+      for (let s = 0; s < 4; s++) segmentFilter[s] = br.flag() ? br.signed(6) : 0;
+    }
+    if (segmentMap) for (let i = 0; i < 3; i++) segmentProbs[i] = br.flag() ? br.literal(8) : 255;
+  }
+
+  const simpleFilter = br.flag();
+  const level = br.literal(6);
+  const sharpness = br.literal(3);
+  let refLfDelta = 0;
+  let modeLfDelta = 0;
+  if (br.flag() && br.flag()) {
+    // Only the intra frame deltas matter for a key frame
+    const refDeltas = [0, 0, 0, 0];
+    const modeDeltas = [0, 0, 0, 0];
+    for (let i = 0; i < 4; i++) if (br.flag()) refDeltas[i] = br.signed(6);
+    for (let i = 0; i < 4; i++) if (br.flag()) modeDeltas[i] = br.signed(6);
+    refLfDelta = refDeltas[0];
+    modeLfDelta = modeDeltas[0];
+  }
+
+  // Token partitions follow the first partition, preceded by their sizes
+  const numParts = 1 << br.literal(2);
+  let pos = partStart + 3 * (numParts - 1);
+  if (pos > data.length) throw new Error("truncated VP8 partitions");
+  const parts: BoolDecoder[] = [];
+  for (let p = 0; p < numParts; p++) {
+    const sizePos = partStart + p * 3;
+    const size =
+      p < numParts - 1 ? data[sizePos] | (data[sizePos + 1] << 8) | (data[sizePos + 2] << 16) : data.length - pos;
+    const end = Math.min(pos + size, data.length);
+    parts.push(createBoolDecoder(data, pos, end));
+    pos = end;
+  }
+
+  const baseQ = br.literal(7);
+  const deltas = [0, 0, 0, 0, 0].map(() => (br.flag() ? br.signed(4) : 0));
+  const [yDc, y2Dc, y2Ac, uvDc, uvAc] = deltas;
+  const quant: Quant[] = [];
+  const filterLevels: number[] = [];
+  for (let s = 0; s < 4; s++) {
+    const q = segmented ? segmentQuant[s] + (absolute ? 0 : baseQ) : baseQ;
+    quant.push({
+      y1: [DC_TABLE[clip(q + yDc, 127)], AC_TABLE[clip(q, 127)]],
+      y2: [DC_TABLE[clip(q + y2Dc, 127)] * 2, Math.max(8, Math.floor((AC_TABLE[clip(q + y2Ac, 127)] * 155) / 100))],
+      uv: [DC_TABLE[clip(q + uvDc, 117)], AC_TABLE[clip(q + uvAc, 127)]],
+    });
+    filterLevels.push(segmented ? segmentFilter[s] + (absolute ? 0 : level) : level);
+  }
+
+  br.flag(); // refresh_entropy_probs: irrelevant for a single frame
+  const coeffProbs = COEFF_PROBS.slice();
+  for (let i = 0; i < coeffProbs.length; i++) if (br.bit(COEFF_UPDATE_PROBS[i])) coeffProbs[i] = br.literal(8);
+  const skipProb = br.flag() ? br.literal(8) : 0;
+
+  return {
+    mbWidth,
+    mbHeight,
+    segmentMap,
+    segmentProbs,
+    quant,
+    filterLevels,
+    filter: level === 0 ? "none" : simpleFilter ? "simple" : "normal",
+    sharpness,
+    refLfDelta,
+    modeLfDelta,
+    skipProb,
+    coeffProbs,
+    parts,
+  } satisfies FrameHeader;
+};
+
+/**
+ * Reads one 4x4 block's tokens into out (dequantized, raster order) and
+ * returns the scan position after the last token, 0 for an empty block.
+ */
+const readCoefficients = (
+  br: BoolDecoder,
+  probs: Uint8Array,
+  type: number,
+  ctx: number,
+  dq: [number, number],
+  first: number,
+  out: Int32Array,
+  outOff: number,
+): number => {
+  const base = type * 8 * 3 * 11;
+  let n = first;
+  let p = base + (BANDS[n] * 3 + ctx) * 11;
+  if (!br.bit(probs[p])) return 0; // EOB straight away
+  for (;;) {
+    ++n;
+    if (!br.bit(probs[p + 1])) {
+      // DCT_0: the next token cannot be EOB
+      p = base + BANDS[n] * 3 * 11;
+    } else {
+      let v: number;
+      if (!br.bit(probs[p + 2])) {
+        v = 1;
+        p = base + (BANDS[n] * 3 + 1) * 11;
+      } else {
+        if (!br.bit(probs[p + 3])) {
+          v = !br.bit(probs[p + 4]) ? 2 : 3 + br.bit(probs[p + 5]);
+        } else if (!br.bit(probs[p + 6])) {
+          v = !br.bit(probs[p + 7]) ? 5 + br.bit(159) : 7 + 2 * br.bit(165) + br.bit(145);
+        } else {
+          const hi = br.bit(probs[p + 8]);
+          const cat = 2 * hi + br.bit(probs[p + 9 + hi]);
+          v = 0;
+          for (const prob of CAT_PROBS[cat]) v = 2 * v + br.bit(prob);
+          v += 3 + (8 << cat);
+        }
+        p = base + (BANDS[n] * 3 + 2) * 11;
+      }
+      const j = ZIGZAG[n - 1];
+      out[outOff + j] = (br.bit(128) ? -v : v) * dq[j > 0 ? 1 : 0];
+      if (n === 16 || !br.bit(probs[p])) return n;
+    }
+    if (n === 16) return 16;
+  }
+};
+
+// Inverse Walsh-Hadamard transform of the Y2 block into the DC of each luma block
+const inverseWht = (input: Int32Array, out: Int32Array): void => {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i++) {
+    const a0 = input[i] + input[12 + i];
+    const a1 = input[4 + i] + input[8 + i];
+    const a2 = input[4 + i] - input[8 + i];
+    const a3 = input[i] - input[12 + i];
+    tmp[i] = a0 + a1;
+    tmp[8 + i] = a0 - a1;
+    tmp[4 + i] = a3 + a2;
+    tmp[12 + i] = a3 - a2;
+  }
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i * 4] + 3;
+    const a0 = dc + tmp[i * 4 + 3];
+    const a1 = tmp[i * 4 + 1] + tmp[i * 4 + 2];
+    const a2 = tmp[i * 4 + 1] - tmp[i * 4 + 2];
+    const a3 = dc - tmp[i * 4 + 3];
+    out[i * 64] = (a0 + a1) >> 3;
+    out[i * 64 + 16] = (a3 + a2) >> 3;
+    out[i * 64 + 32] = (a0 - a1) >> 3;
+    out[i * 64 + 48] = (a3 - a2) >> 3;
+  }
+};
+
+const mul1 = (a: number): number => ((a * 20091) >> 16) + a;
+const mul2 = (a: number): number => (a * 35468) >> 16;
+
+// Inverse DCT of one 4x4 block, added onto the prediction in place
+const addTransform = (coeffs: Int32Array, off: number, dst: Uint8Array, dstOff: number): void => {
+  const tmp = new Int32Array(16);
+  for (let i = 0; i < 4; i++) {
+    const a = coeffs[off + i] + coeffs[off + 8 + i];
+    const b = coeffs[off + i] - coeffs[off + 8 + i];
+    const c = mul2(coeffs[off + 4 + i]) - mul1(coeffs[off + 12 + i]);
+    const d = mul1(coeffs[off + 4 + i]) + mul2(coeffs[off + 12 + i]);
+    tmp[i * 4] = a + d;
+    tmp[i * 4 + 1] = b + c;
+    tmp[i * 4 + 2] = b - c;
+    tmp[i * 4 + 3] = a - d;
+  }
+  for (let i = 0; i < 4; i++) {
+    const dc = tmp[i] + 4;
+    const a = dc + tmp[8 + i];
+    const b = dc - tmp[8 + i];
+    const c = mul2(tmp[4 + i]) - mul1(tmp[12 + i]);
+    const d = mul1(tmp[4 + i]) + mul2(tmp[12 + i]);
+    const row = dstOff + i * BPS;
+    dst[row] = clip8(dst[row] + ((a + d) >> 3));
+    dst[row + 1] = clip8(dst[row + 1] + ((b + c) >> 3));
+    dst[row + 2] = clip8(dst[row + 2] + ((b - c) >> 3));
+    dst[row + 3] = clip8(dst[row + 3] + ((a - d) >> 3));
+  }
+};
+
+const hasCoefficients = (coeffs: Int32Array, off: number): boolean => {
+  for (let i = 0; i < 16; i++) if (coeffs[off + i]) return true;
+  return false;
+};
+
+const avg2 = (a: number, b: number): number => (a + b + 1) >> 1;
+const avg3 = (a: number, b: number, c: number): number => (a + 2 * b + c + 2) >> 2;
+
+// 16x16 and 8x8 prediction; DC falls back to whichever edges exist
+const predictBlock = (ws: Uint8Array, off: number, size: number, mode: number, hasTop: boolean, hasLeft: boolean) => {
+  const top = off - BPS;
+  switch (mode) {
+    case DC_PRED: {
+      let sum = 0;
+      let count = 0;
+      if (hasTop) for (let i = 0; i < size; i++, count++) sum += ws[top + i];
+      if (hasLeft) for (let j = 0; j < size; j++, count++) sum += ws[off + j * BPS - 1];
+      const dc = count ? Math.floor((sum + count / 2) / count) : 128;
+      for (let j = 0; j < size; j++) ws.fill(dc, off + j * BPS, off + j * BPS + size);
+      break;
+    }
+    case TM_PRED:
+      for (let j = 0; j < size; j++) {
+        const d = ws[off + j * BPS - 1] - ws[top - 1];
+        for (let i = 0; i < size; i++) ws[off + j * BPS + i] = clip8(ws[top + i] + d);
+      }
+      break;
+    case VE_PRED:
+      for (let j = 0; j < size; j++) ws.copyWithin(off + j * BPS, top, top + size);
+      break;
+    case HE_PRED:
+      for (let j = 0; j < size; j++) ws.fill(ws[off + j * BPS - 1], off + j * BPS, off + j * BPS + size);
+      break;
+  }
+};
+
+// 4x4 prediction, reading the row above (including four pixels above-right)
+// and the column to the left
+const predictSubblock = (ws: Uint8Array, off: number, mode: number) => {
+  const t = off - BPS;
+  const [x, a, b, c, d, e, f, g, h] = [ws[t - 1], ws[t], ws[t + 1], ws[t + 2], ws[t + 3], ws[t + 4], ws[t + 5], ws[t + 6], ws[t + 7]];
+  const [i, j, k, l] = [ws[off - 1], ws[off + BPS - 1], ws[off + 2 * BPS - 1], ws[off + 3 * BPS - 1]];
+  const put = (px: number, py: number, v: number) => (ws[off + py * BPS + px] = v);
+  switch (mode) {
+    case DC_PRED: {
+      const dc = (a + b + c + d + i + j + k + l + 4) >> 3;
+      for (let y = 0; y < 4; y++) ws.fill(dc, off + y * BPS, off + y * BPS + 4);
+      break;
+    }
+    case TM_PRED:
+      for (let y = 0; y < 4; y++) {
+        const left = ws[off + y * BPS - 1] - x;
+        for (let px = 0; px < 4; px++) put(px, y, clip8(ws[t + px] + left));
+      }
+      break;
+    case VE_PRED: {
+      const row = [avg3(x, a, b), avg3(a, b, c), avg3(b, c, d), avg3(c, d, e)];
+      for (let y = 0; y < 4; y++) for (let px = 0; px < 4; px++) put(px, y, row[px]);
+      break;
+    }
+    case HE_PRED: {
+      const col = [avg3(x, i, j), avg3(i, j, k), avg3(j, k, l), avg3(k, l, l)];
+      for (let y = 0; y < 4; y++) ws.fill(col[y], off + y * BPS, off + y * BPS + 4);
+      break;
+    }
+    case RD_PRED:
+      put(0, 3, avg3(j, k, l));
+      put(0, 2, put(1, 3, avg3(i, j, k)));
+      put(0, 1, put(1, 2, put(2, 3, avg3(x, i, j))));
+      put(0, 0, put(1, 1, put(2, 2, put(3, 3, avg3(a, x, i)))));
+      put(1, 0, put(2, 1, put(3, 2, avg3(b, a, x))));
+      put(2, 0, put(3, 1, avg3(c, b, a)));
+      put(3, 0, avg3(d, c, b));
+      break;
+    case VR_PRED:
+      put(0, 0, put(1, 2, avg2(x, a)));
+      put(1, 0, put(2, 2, avg2(a, b)));
+      put(2, 0, put(3, 2, avg2(b, c)));
+      put(3, 0, avg2(c, d));
+      put(0, 3, avg3(k, j, i));
+      put(0, 2, avg3(j, i, x));
+      put(0, 1, put(1, 3, avg3(i, x, a)));
+      put(1, 1, put(2, 3, avg3(x, a, b)));
+      put(2, 1, put(3, 3, avg3(a, b, c)));
+      put(3, 1, avg3(b, c, d));
+      break;
+    case LD_PRED:
+      put(0, 0, avg3(a, b, c));
+      put(1, 0, put(0, 1, avg3(b, c, d)));
+      put(2, 0, put(1, 1, put(0, 2, avg3(c, d, e))));
+      put(3, 0, put(2, 1, put(1, 2, put(0, 3, avg3(d, e, f)))));
+      put(3, 1, put(2, 2, put(1, 3, avg3(e, f, g))));
+      put(3, 2, put(2, 3, avg3(f, g, h)));
+      put(3, 3, avg3(g, h, h));
+      break;
+    case VL_PRED:
+      put(0, 0, avg2(a, b));
+      put(1, 0, put(0, 2, avg2(b, c)));
+      put(2, 0, put(1, 2, avg2(c, d)));
+      put(3, 0, put(2, 2, avg2(d, e)));
+      put(0, 1, avg3(a, b, c));
+      put(1, 1, put(0, 3, avg3(b, c, d)));
+      put(2, 1, put(1, 3, avg3(c, d, e)));
+      put(3, 1, put(2, 3, avg3(d, e, f)));
+      put(3, 2, avg3(e, f, g));
+      put(3, 3, avg3(f, g, h));
+      break;
+    case HD_PRED:
+      put(0, 0, put(2, 1, avg2(i, x)));
+      put(0, 1, put(2, 2, avg2(j, i)));
+      put(0, 2, put(2, 3, avg2(k, j)));
+      put(0, 3, avg2(l, k));
+      put(3, 0, avg3(a, b, c));
+      put(2, 0, avg3(x, a, b));
+      put(1, 0, put(3, 1, avg3(i, x, a)));
+      put(1, 1, put(3, 2, avg3(j, i, x)));
+      put(1, 2, put(3, 3, avg3(k, j, i)));
+      put(1, 3, avg3(l, k, j));
+      break;
+    case HU_PRED:
+      put(0, 0, avg2(i, j));
+      put(2, 0, put(0, 1, avg2(j, k)));
+      put(2, 1, put(0, 2, avg2(k, l)));
+      put(1, 0, avg3(i, j, k));
+      put(3, 0, put(1, 1, avg3(j, k, l)));
+      put(3, 1, put(1, 2, avg3(k, l, l)));
+      put(3, 2, put(2, 2, put(0, 3, put(1, 3, put(2, 3, put(3, 3, l))))));
+      break;
+  }
+};
+
+// Loop filter primitives (RFC 6386 section 15), operating on pixel p0|q0 at
+// offset off across an edge perpendicular to step
+const sclip1 = (v: number): number => (v < -128 ? -128 : v > 127 ? 127 : v);
+const sclip2 = (v: number): number => (v < -16 ? -16 : v > 15 ? 15 : v);
+
+const filterCommon = (p: Uint8Array, off: number, step: number, outerTaps: boolean): void => {
+  const p1 = p[off - 2 * step];
+  const p0 = p[off - step];
+  const q0 = p[off];
+  const q1 = p[off + step];
+  const a = 3 * (q0 - p0) + (outerTaps ? sclip1(p1 - q1) : 0);
+  const a1 = sclip2((a + 4) >> 3);
+  const a2 = sclip2((a + 3) >> 3);
+  p[off - step] = clip8(p0 + a2);
+  p[off] = clip8(q0 - a1);
+  if (!outerTaps) {
+    const a3 = (a1 + 1) >> 1;
+    p[off - 2 * step] = clip8(p1 + a3);
+    p[off + step] = clip8(q1 - a3);
+  }
+};
+
+const filterMacroblockEdge = (p: Uint8Array, off: number, step: number): void => {
+  const p2 = p[off - 3 * step];
+  const p1 = p[off - 2 * step];
+  const p0 = p[off - step];
+  const q0 = p[off];
+  const q1 = p[off + step];
+  const q2 = p[off + 2 * step];
+  const a = sclip1(3 * (q0 - p0) + sclip1(p1 - q1));
+  const a1 = (27 * a + 63) >> 7;
+  const a2 = (18 * a + 63) >> 7;
+  const a3 = (9 * a + 63) >> 7;
+  p[off - 3 * step] = clip8(p2 + a3);
+  p[off - 2 * step] = clip8(p1 + a2);
+  p[off - step] = clip8(p0 + a1);
+  p[off] = clip8(q0 - a1);
+  p[off + step] = clip8(q1 - a2);
+  p[off + 2 * step] = clip8(q2 - a3);
+};
+
+const edgeActive = (p: Uint8Array, off: number, step: number, limit: number): boolean =>
+  2 * Math.abs(p[off - step] - p[off]) + (Math.abs(p[off - 2 * step] - p[off + step]) >> 1) <= limit;
+
+const interiorFlat = (p: Uint8Array, off: number, step: number, ilevel: number): boolean => {
+  for (let k = -4; k < 3; k++) {
+    if (k === -1) continue; // p0|q0 is the edge itself
+    if (Math.abs(p[off + k * step] - p[off + (k + 1) * step]) > ilevel) return false;
+  }
+  return true;
+};
+
+const highEdgeVariance = (p: Uint8Array, off: number, step: number, thresh: number): boolean =>
+  Math.abs(p[off - 2 * step] - p[off - step]) > thresh || Math.abs(p[off + step] - p[off]) > thresh;
+
+/**
+ * Filters `count` pixels along one edge. step crosses the edge, advance
+ * moves along it.
+ */
+const filterEdge = (
+  p: Uint8Array,
+  off: number,
+  step: number,
+  advance: number,
+  count: number,
+  limit: number,
+  ilevel: number,
+  hevThresh: number,
+  macroblockEdge: boolean,
+): void => {
+  for (let n = 0; n < count; n++, off += advance) {
+    if (!edgeActive(p, off, step, limit) || !interiorFlat(p, off, step, ilevel)) continue;
+    if (highEdgeVariance(p, off, step, hevThresh)) filterCommon(p, off, step, true);
+    else if (macroblockEdge) filterMacroblockEdge(p, off, step);
+    else filterCommon(p, off, step, false);
+  }
+};
+
+const simpleFilterEdge = (p: Uint8Array, off: number, step: number, advance: number, limit: number): void => {
+  for (let n = 0; n < 16; n++, off += advance) if (edgeActive(p, off, step, limit)) filterCommon(p, off, step, true);
+};
+
+interface FilterInfo {
+  level: number;
+  ilevel: number;
+  inner: boolean; // also filter the edges between subblocks
+}
+
+const filterFrame = (planes: Vp8Planes, header: FrameHeader, info: FilterInfo[]): void => {
+  const { y, u, v, yStride, uvStride } = planes;
+  for (let mby = 0; mby < header.mbHeight; mby++) {
+    for (let mbx = 0; mbx < header.mbWidth; mbx++) {
+      const { level, ilevel, inner } = info[mby * header.mbWidth + mbx];
+      if (!level) continue;
+      const limit = 2 * level + ilevel;
+      const yOff = mby * 16 * yStride + mbx * 16;
+      if (header.filter === "simple") {
+        if (mbx > 0) simpleFilterEdge(y, yOff, 1, yStride, limit + 4);
+        if (inner) for (let i = 4; i < 16; i += 4) simpleFilterEdge(y, yOff + i, 1, yStride, limit);
+        if (mby > 0) simpleFilterEdge(y, yOff, yStride, 1, limit + 4);
+        if (inner) for (let i = 4; i < 16; i += 4) simpleFilterEdge(y, yOff + i * yStride, yStride, 1, limit);
+        continue;
+      }
+      const hev = level >= 40 ? 2 : level >= 15 ? 1 : 0;
+      const uvOff = mby * 8 * uvStride + mbx * 8;
+      if (mbx > 0) {
+        filterEdge(y, yOff, 1, yStride, 16, limit + 4, ilevel, hev, true);
+        for (const c of [u, v]) filterEdge(c, uvOff, 1, uvStride, 8, limit + 4, ilevel, hev, true);
+      }
+      if (inner) {
+        for (let i = 4; i < 16; i += 4) filterEdge(y, yOff + i, 1, yStride, 16, limit, ilevel, hev, false);
+        for (const c of [u, v]) filterEdge(c, uvOff + 4, 1, uvStride, 8, limit, ilevel, hev, false);
+      }
+      if (mby > 0) {
+        filterEdge(y, yOff, yStride, 1, 16, limit + 4, ilevel, hev, true);
+        for (const c of [u, v]) filterEdge(c, uvOff, uvStride, 1, 8, limit + 4, ilevel, hev, true);
+      }
+      if (inner) {
+        for (let i = 4; i < 16; i += 4) filterEdge(y, yOff + i * yStride, yStride, 1, 16, limit, ilevel, hev, false);
+        for (const c of [u, v]) filterEdge(c, uvOff + 4 * uvStride, uvStride, 1, 8, limit, ilevel, hev, false);
+      }
+    }
+  }
+};
+
+/**
+ * Loads a macroblock's prediction context from the (still unfiltered)
+ * planes into the work buffer. Missing edges use the spec's fixed values:
+ * 127 above the frame, 129 left of it.
+ */
+const loadContext = (
+  ws: Uint8Array,
+  plane: Uint8Array,
+  stride: number,
+  size: number,
+  px: number,
+  py: number,
+  topRight: number, // pixels beyond the block needed above-right
+  lastColumn: boolean,
+): void => {
+  const top = Y_OFF - BPS;
+  if (py === 0) {
+    ws.fill(127, top - 1, top + size + topRight);
+  } else {
+    const row = (py - 1) * stride + px;
+    ws[top - 1] = px === 0 ? 129 : plane[row - 1];
+    ws.set(plane.subarray(row, row + size), top);
+    if (topRight) {
+      if (lastColumn) ws.fill(plane[row + size - 1], top + size, top + size + topRight);
+      else ws.set(plane.subarray(row + size, row + size + topRight), top + size);
+    }
+  }
+  for (let j = 0; j < size; j++) ws[Y_OFF + j * BPS - 1] = px === 0 ? 129 : plane[(py + j) * stride + px - 1];
+};
+
+const storeBlock = (ws: Uint8Array, plane: Uint8Array, stride: number, size: number, px: number, py: number) => {
+  for (let j = 0; j < size; j++) plane.set(ws.subarray(Y_OFF + j * BPS, Y_OFF + j * BPS + size), (py + j) * stride + px);
+};
+
+/**
+ * Decodes a VP8 key frame. Throws on anything malformed or unsupported
+ * (inter frames never appear in a WebP).
+ */
+export const decodeVp8 = (data: Uint8Array): Vp8Planes => {
+  if (data.length < 10) throw new Error("truncated VP8 frame");
+  const tag = data[0] | (data[1] << 8) | (data[2] << 16);
+  if (tag & 1) throw new Error("not a VP8 key frame");
+  if (data[3] !== 0x9d || data[4] !== 0x01 || data[5] !== 0x2a) throw new Error("bad VP8 start code");
+  const width = (data[6] | (data[7] << 8)) & 0x3fff;
+  const height = (data[8] | (data[9] << 8)) & 0x3fff;
+  if (!width || !height || width * height > MAX_DECODED_PIXELS) throw new Error("bad VP8 dimensions");
+  const partStart = 10 + (tag >>> 5);
+  if (partStart > data.length) throw new Error("truncated VP8 header");
+
+  const mbWidth = (width + 15) >> 4;
+  const mbHeight = (height + 15) >> 4;
+  const br = createBoolDecoder(data, 10, partStart);
+  const header = parseHeader(data, br, mbWidth, mbHeight, partStart);
+  const yStride = mbWidth * 16;
+  const uvStride = mbWidth * 8;
+  const planes: Vp8Planes = {
+    width,
+    height,
+    y: new Uint8Array(yStride * mbHeight * 16),
+    u: new Uint8Array(uvStride * mbHeight * 8),
+    v: new Uint8Array(uvStride * mbHeight * 8),
+    yStride,
+    uvStride,
+  };
+
+  const { coeffProbs: probs, quant } = header;
+  const ws = new Uint8Array(BPS * 17);
+  const coeffs = new Int32Array(384);
+  const y2 = new Int32Array(16);
+  const modes = new Uint8Array(16);
+  // Non-zero flags of the neighbouring blocks: 4 luma, 2 + 2 chroma, Y2
+  const topNz = new Uint8Array(mbWidth * 9);
+  const leftNz = new Uint8Array(9);
+  const topModes = new Uint8Array(mbWidth * 4);
+  const leftModes = new Uint8Array(4);
+  const filterInfo: FilterInfo[] = [];
+
+  for (let mby = 0; mby < mbHeight; mby++) {
+    const tokens = header.parts[mby & (header.parts.length - 1)];
+    leftNz.fill(0);
+    leftModes.fill(DC_PRED);
+    for (let mbx = 0; mbx < mbWidth; mbx++) {
+      // Macroblock header, from the first partition
+      const segment = !header.segmentMap
+        ? 0
+        : br.bit(header.segmentProbs[0])
+          ? 2 + br.bit(header.segmentProbs[2])
+          : br.bit(header.segmentProbs[1]);
+      const skip = header.skipProb ? br.bit(header.skipProb) : 0;
+      const is4x4 = !br.bit(145);
+      let yMode = DC_PRED;
+      if (!is4x4) {
+        yMode = br.bit(156) ? (br.bit(128) ? TM_PRED : HE_PRED) : br.bit(163) ? VE_PRED : DC_PRED;
+        topModes.fill(yMode, mbx * 4, mbx * 4 + 4);
+        leftModes.fill(yMode);
+      } else {
+        for (let sy = 0; sy < 4; sy++) {
+          for (let sx = 0; sx < 4; sx++) {
+            const prob = (topModes[mbx * 4 + sx] * 10 + leftModes[sy]) * 9;
+            let i = 0;
+            do i = BMODE_TREE[2 * i + br.bit(BMODE_PROBS[prob + i])];
+            while (i > 0);
+            modes[sy * 4 + sx] = topModes[mbx * 4 + sx] = leftModes[sy] = -i;
+          }
+        }
+      }
+      const uvMode = !br.bit(142) ? DC_PRED : !br.bit(114) ? VE_PRED : br.bit(183) ? TM_PRED : HE_PRED;
+
+      // Residuals, from this row's token partition
+      const q = quant[segment];
+      const tnz = mbx * 9;
+      coeffs.fill(0);
+      let nonZero = false;
+      if (!skip) {
+        let first = 0;
+        let type = 3;
+        if (!is4x4) {
+          y2.fill(0);
+          const nz = readCoefficients(tokens, probs, 1, topNz[tnz + 8] + leftNz[8], q.y2, 0, y2, 0);
+          topNz[tnz + 8] = leftNz[8] = nz > 0 ? 1 : 0;
+          inverseWht(y2, coeffs);
+          first = 1;
+          type = 0;
+        }
+        for (let sy = 0; sy < 4; sy++) {
+          let l = leftNz[sy];
+          for (let sx = 0; sx < 4; sx++) {
+            const nz = readCoefficients(tokens, probs, type, l + topNz[tnz + sx], q.y1, first, coeffs, (sy * 4 + sx) * 16);
+            l = topNz[tnz + sx] = nz > 0 ? 1 : 0;
+          }
+          leftNz[sy] = l;
+        }
+        for (let ch = 0; ch < 4; ch += 2) {
+          for (let sy = 0; sy < 2; sy++) {
+            let l = leftNz[4 + ch + sy];
+            for (let sx = 0; sx < 2; sx++) {
+              const off = 256 + ch * 32 + (sy * 2 + sx) * 16;
+              const nz = readCoefficients(tokens, probs, 2, l + topNz[tnz + 4 + ch + sx], q.uv, 0, coeffs, off);
+              l = topNz[tnz + 4 + ch + sx] = nz > 0 ? 1 : 0;
+            }
+            leftNz[4 + ch + sy] = l;
+          }
+        }
+        nonZero = coeffs.some((c) => c !== 0);
+      } else {
+        topNz.fill(0, tnz, tnz + 8);
+        leftNz.fill(0, 0, 8);
+        if (!is4x4) topNz[tnz + 8] = leftNz[8] = 0;
+      }
+
+      // Filter strength for the whole-frame pass afterwards
+      let level = header.filterLevels[segment] + header.refLfDelta + (is4x4 ? header.modeLfDelta : 0);
+      level = clip(level, 63);
+      let ilevel = level;
+      if (header.sharpness > 0) {
+        ilevel >>= header.sharpness > 4 ? 2 : 1;
+        ilevel = Math.min(ilevel, 9 - header.sharpness);
+      }
+      filterInfo.push({ level, ilevel: Math.max(ilevel, 1), inner: nonZero || is4x4 });
+
+      // Prediction plus residual, luma then chroma
+      const px = mbx * 16;
+      const py = mby * 16;
+      const lastColumn = mbx === mbWidth - 1;
+      loadContext(ws, planes.y, yStride, 16, px, py, 4, lastColumn);
+      if (is4x4) {
+        // Subblocks on the right edge take their above-right pixels from
+        // the macroblock row above
+        const topRight = Y_OFF - BPS + 16;
+        for (let r = 1; r < 4; r++) ws.copyWithin(topRight + r * 4 * BPS, topRight, topRight + 4);
+        for (let n = 0; n < 16; n++) {
+          const off = Y_OFF + (n >> 2) * 4 * BPS + (n & 3) * 4;
+          predictSubblock(ws, off, modes[n]);
+          if (hasCoefficients(coeffs, n * 16)) addTransform(coeffs, n * 16, ws, off);
+        }
+      } else {
+        predictBlock(ws, Y_OFF, 16, yMode, mby > 0, mbx > 0);
+        for (let n = 0; n < 16; n++) {
+          if (hasCoefficients(coeffs, n * 16)) addTransform(coeffs, n * 16, ws, Y_OFF + (n >> 2) * 4 * BPS + (n & 3) * 4);
+        }
+      }
+      storeBlock(ws, planes.y, yStride, 16, px, py);
+
+      const chroma = [planes.u, planes.v];
+      for (let c = 0; c < 2; c++) {
+        loadContext(ws, chroma[c], uvStride, 8, px >> 1, py >> 1, 0, lastColumn);
+        predictBlock(ws, Y_OFF, 8, uvMode, mby > 0, mbx > 0);
+        for (let n = 0; n < 4; n++) {
+          const off = 256 + c * 64 + n * 16;
+          if (hasCoefficients(coeffs, off)) addTransform(coeffs, off, ws, Y_OFF + (n >> 1) * 4 * BPS + (n & 1) * 4);
+        }
+        storeBlock(ws, chroma[c], uvStride, 8, px >> 1, py >> 1);
+      }
+    }
+  }
+
+  if (header.filter !== "none") filterFrame(planes, header, filterInfo);
+  return planes;
+};
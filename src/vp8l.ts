@@ -0,0 +1,934 @@
+/**
+ * VP8L codec, the lossless WebP bitstream. Decodes every feature, including
+ * the headerless VP8L streams that carry compressed alpha for lossy WebP.
+ * The encoder sticks to a palette, or subtract-green plus a predictor, with
+ * LZ77 and one prefix code group and no colour cache.
+ */
+
+import { MAX_DECODED_PIXELS, createImage, type RawImage } from "./image";
+
+const NUM_LITERAL_CODES = 256;
+const NUM_LENGTH_CODES = 24;
+const NUM_DISTANCE_CODES = 40;
+const MAX_CODE_LENGTH = 15;
+
+// Order in which code length code lengths are stored
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+// Short distance codes as (dy << 4) | (8 - dx) for the 120 nearest pixels
+const DISTANCE_MAP = new Uint8Array([
+  0x18, 0x07, 0x17, 0x19, 0x28, 0x06, 0x27, 0x29, 0x16, 0x1a, 0x26, 0x2a, 0x38, 0x05, 0x37, 0x39, 0x15, 0x1b, 0x36,
+  0x3a, 0x25, 0x2b, 0x48, 0x04, 0x47, 0x49, 0x14, 0x1c, 0x35, 0x3b, 0x46, 0x4a, 0x24, 0x2c, 0x58, 0x45, 0x4b, 0x34,
+  0x3c, 0x03, 0x57, 0x59, 0x13, 0x1d, 0x56, 0x5a, 0x23, 0x2d, 0x44, 0x4c, 0x55, 0x5b, 0x33, 0x3d, 0x68, 0x02, 0x67,
+  0x69, 0x12, 0x1e, 0x66, 0x6a, 0x22, 0x2e, 0x54, 0x5c, 0x43, 0x4d, 0x65, 0x6b, 0x32, 0x3e, 0x78, 0x01, 0x77, 0x79,
+  0x53, 0x5d, 0x11, 0x1f, 0x64, 0x6c, 0x42, 0x4e, 0x76, 0x7a, 0x21, 0x2f, 0x75, 0x7b, 0x31, 0x3f, 0x63, 0x6d, 0x52,
+  0x5e, 0x00, 0x74, 0x7c, 0x41, 0x4f, 0x10, 0x20, 0x62, 0x6e, 0x30, 0x73, 0x7d, 0x51, 0x5f, 0x40, 0x72, 0x7e, 0x61,
+  0x6f, 0x50, 0x71, 0x7f, 0x60, 0x70,
+]);
+
+const PREDICTOR_TRANSFORM = 0;
+const CROSS_COLOR_TRANSFORM = 1;
+const SUBTRACT_GREEN_TRANSFORM = 2;
+const COLOR_INDEXING_TRANSFORM = 3;
+
+interface BitReader {
+  read: (bits: number) => number; // up to 24 bits, least significant first
+  peek8: () => number;
+  skip: (bits: number) => void;
+}
+
+const createBitReader = (data: Uint8Array): BitReader => {
+  let pos = 0;
+  let buf = 0;
+  let count = 0;
+  const fill = (bits: number, strict: boolean) => {
+    while (count < bits) {
+      if (pos >= data.length) {
+        if (strict) throw new Error("truncated VP8L stream");
+        return;
+      }
+      buf |= data[pos++] << count;
+      count += 8;
+    }
+  };
+  return {
+    read: (bits) => {
+      fill(bits, true);
+      const v = buf & ((1 << bits) - 1);
+      buf >>>= bits;
+      count -= bits;
+      return v;
+    },
+    peek8: () => {
+      fill(8, false);
+      return buf & 0xff;
+    },
+    skip: (bits) => {
+      fill(bits, true);
+      buf >>>= bits;
+      count -= bits;
+    },
+  };
+};
+
+interface HuffmanCode {
+  single: number; // the only symbol of a zero-length code, else -1
+  fast: Int32Array; // next 8 bits -> (symbol << 4) | length, -1 for longer codes
+  counts: Uint16Array; // codes of each length
+  symbols: Uint16Array; // symbols in canonical order
+}
+
+const buildHuffmanCode = (lengths: Uint8Array): HuffmanCode => {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  let used = 0;
+  let last = 0;
+  for (let s = 0; s < lengths.length; s++) {
+    if (lengths[s]) {
+      counts[lengths[s]]++;
+      used++;
+      last = s;
+    }
+  }
+  if (!used) throw new Error("empty VP8L prefix code");
+  const fast = new Int32Array(256).fill(-1);
+  if (used === 1) return { single: last, fast, counts, symbols: new Uint16Array([last]) };
+
+  const offsets = new Uint16Array(MAX_CODE_LENGTH + 2);
+  for (let len = 1; len <= MAX_CODE_LENGTH; len++) offsets[len + 1] = offsets[len] + counts[len];
+  const symbols = new Uint16Array(used);
+  for (let s = 0; s < lengths.length; s++) if (lengths[s]) symbols[offsets[lengths[s]]++] = s;
+
+  // Canonical codes are read most significant bit first, so the fast table
+  // is indexed by the bit-reversed code
+  let code = 0;
+  let k = 0;
+  for (let len = 1; len <= 8; len++) {
+    for (let n = 0; n < counts[len]; n++, k++, code++) {
+      let reversed = 0;
+      for (let b = 0; b < len; b++) reversed |= ((code >> b) & 1) << (len - 1 - b);
+      for (let fill = reversed; fill < 256; fill += 1 << len) fast[fill] = (symbols[k] << 4) | len;
+    }
+    code <<= 1;
+  }
+  return { single: -1, fast, counts, symbols };
+};
+
+const readSymbol = (br: BitReader, code: HuffmanCode): number => {
+  if (code.single >= 0) return code.single;
+  const hit = code.fast[br.peek8()];
+  if (hit >= 0) {
+    br.skip(hit & 15);
+    return hit >> 4;
+  }
+  // Long code: walk the canonical code one bit at a time
+  let value = 0;
+  let first = 0;
+  let index = 0;
+  for (let len = 1; len <= MAX_CODE_LENGTH; len++) {
+    value |= br.read(1);
+    const count = code.counts[len];
+    if (value - first < count) return code.symbols[index + value - first];
+    index += count;
+    first = (first + count) << 1;
+    value <<= 1;
+  }
+  throw new Error("invalid VP8L prefix code");
+};
+
+const readCodeLengths = (br: BitReader, lengthCode: HuffmanCode, alphabetSize: number): Uint8Array => {
+  const lengths = new Uint8Array(alphabetSize);
+  let maxSymbol = alphabetSize;
+  if (br.read(1)) {
+    maxSymbol = 2 + br.read(2 + 2 * br.read(3));
+    if (maxSymbol > alphabetSize) throw new Error("bad VP8L code length count");
+  }
+  let prev = 8;
+  for (let symbol = 0; symbol < alphabetSize && maxSymbol-- > 0; ) {
+    const len = readSymbol(br, lengthCode);
+    if (len < 16) {
+      lengths[symbol++] = len;
+      if (len) prev = len;
+      continue;
+    }
+    const repeat = len === 16 ? 3 + br.read(2) : len === 17 ? 3 + br.read(3) : 11 + br.read(7);
+    if (symbol + repeat > alphabetSize) throw new Error("bad VP8L code length repeat");
+    lengths.fill(len === 16 ? prev : 0, symbol, symbol + repeat);
+    symbol += repeat;
+  }
+  return lengths;
+};
+
+const readHuffmanCode = (br: BitReader, alphabetSize: number): HuffmanCode => {
+  const lengths = new Uint8Array(alphabetSize);
+  if (br.read(1)) {
+    // Simple code: one or two symbols
+    const two = br.read(1);
+    const first = br.read(br.read(1) ? 8 : 1);
+    lengths[first] = 1;
+    if (two) lengths[br.read(8)] = 1;
+    return buildHuffmanCode(lengths);
+  }
+  const lengthLengths = new Uint8Array(CODE_LENGTH_ORDER.length);
+  const count = 4 + br.read(4);
+  for (let i = 0; i < count; i++) lengthLengths[CODE_LENGTH_ORDER[i]] = br.read(3);
+  return buildHuffmanCode(readCodeLengths(br, buildHuffmanCode(lengthLengths), alphabetSize));
+};
+
+// Green (with length and cache codes), red, blue, alpha and distance
+type HuffmanGroup = [HuffmanCode, HuffmanCode, HuffmanCode, HuffmanCode, HuffmanCode];
+
+const subSampleSize = (size: number, bits: number): number => (size + (1 << bits) - 1) >> bits;
+
+// Length and distance prefix codes: the low bits follow as extra bits
+const prefixValue = (br: BitReader, prefix: number): number => {
+  if (prefix < 4) return prefix + 1;
+  const extra = (prefix - 2) >> 1;
+  return ((2 + (prefix & 1)) << extra) + br.read(extra) + 1;
+};
+
+const planeDistance = (xsize: number, code: number): number => {
+  if (code > 120) return code - 120;
+  const v = DISTANCE_MAP[code - 1];
+  const dist = (v >> 4) * xsize + (8 - (v & 15));
+  return dist >= 1 ? dist : 1;
+};
+
+// Per-channel arithmetic on packed ARGB
+const addPixels = (a: number, b: number): number =>
+  ((((a & 0xff00ff00) + (b & 0xff00ff00)) & 0xff00ff00) | (((a & 0x00ff00ff) + (b & 0x00ff00ff)) & 0x00ff00ff)) >>> 0;
+const average2 = (a: number, b: number): number => ((((a ^ b) & 0xfefefefe) >>> 1) + (a & b)) >>> 0;
+
+const mapChannels = (f: (shift: number) => number): number =>
+  ((f(24) << 24) | (f(16) << 16) | (f(8) << 8) | f(0)) >>> 0;
+const channel = (p: number, shift: number): number => (p >>> shift) & 0xff;
+const clamp255 = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+const select = (l: number, t: number, tl: number): number => {
+  let toLeft = 0; // distance of the gradient estimate from the top pixel
+  let toTop = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    toLeft += Math.abs(channel(t, shift) - channel(tl, shift));
+    toTop += Math.abs(channel(l, shift) - channel(tl, shift));
+  }
+  return toLeft < toTop ? l : t;
+};
+
+const predict = (mode: number, l: number, t: number, tr: number, tl: number): number => {
+  switch (mode) {
+    case 1:
+      return l;
+    case 2:
+      return t;
+    case 3:
+      return tr;
+    case 4:
+      return tl;
+    case 5:
+      return average2(average2(l, tr), t);
+    case 6:
+      return average2(l, tl);
+    case 7:
+      return average2(l, t);
+    case 8:
+      return average2(tl, t);
+    case 9:
+      return average2(t, tr);
+    case 10:
+      return average2(average2(l, tl), average2(t, tr));
+    case 11:
+      return select(l, t, tl);
+    case 12:
+      return mapChannels((s) => clamp255(channel(l, s) + channel(t, s) - channel(tl, s)));
+    case 13: {
+      const avg = average2(l, t);
+      return mapChannels((s) => clamp255(channel(avg, s) + Math.trunc((channel(avg, s) - channel(tl, s)) / 2)));
+    }
+    default:
+      return 0xff000000; // mode 0, and the unused 14 and 15
+  }
+};
+
+interface Transform {
+  type: number;
+  xsize: number; // image width when the transform was read
+  bits: number;
+  data: Uint32Array; // sub-image or colour table
+}
+
+const inversePredictor = (t: Transform, pixels: Uint32Array, ysize: number): void => {
+  const w = t.xsize;
+  const blocksPerRow = subSampleSize(w, t.bits);
+  for (let y = 0; y < ysize; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      let pred: number;
+      if (y === 0) pred = x === 0 ? 0xff000000 : pixels[i - 1];
+      else if (x === 0) pred = pixels[i - w];
+      else {
+        // On the last column the top-right neighbour wraps to the current row's first pixel
+        const mode = (t.data[(y >> t.bits) * blocksPerRow + (x >> t.bits)] >> 8) & 15;
+        pred = predict(mode, pixels[i - 1], pixels[i - w], pixels[i - w + 1], pixels[i - w - 1]);
+      }
+      pixels[i] = addPixels(pixels[i], pred);
+    }
+  }
+};
+
+const colorTransformDelta = (t: number, c: number): number => (((t << 24) >> 24) * ((c << 24) >> 24)) >> 5;
+
+const inverseCrossColor = (t: Transform, pixels: Uint32Array, ysize: number): void => {
+  const w = t.xsize;
+  const blocksPerRow = subSampleSize(w, t.bits);
+  for (let y = 0; y < ysize; y++) {
+    for (let x = 0; x < w; x++) {
+      const m = t.data[(y >> t.bits) * blocksPerRow + (x >> t.bits)];
+      const i = y * w + x;
+      const argb = pixels[i];
+      const green = (argb >> 8) & 0xff;
+      const red = (((argb >> 16) & 0xff) + colorTransformDelta(m, green)) & 0xff;
+      let blue = ((argb & 0xff) + colorTransformDelta(m >> 8, green)) & 0xff;
+      blue = (blue + colorTransformDelta(m >> 16, red)) & 0xff;
+      pixels[i] = ((argb & 0xff00ff00) | (red << 16) | blue) >>> 0;
+    }
+  }
+};
+
+const inverseSubtractGreen = (pixels: Uint32Array): void => {
+  for (let i = 0; i < pixels.length; i++) {
+    const argb = pixels[i];
+    const green = (argb >> 8) & 0xff;
+    const redBlue = ((argb & 0x00ff00ff) + ((green << 16) | green)) & 0x00ff00ff;
+    pixels[i] = ((argb & 0xff00ff00) | redBlue) >>> 0;
+  }
+};
+
+// Expands palette indices, several of which may be packed into one pixel
+const inverseColorIndexing = (t: Transform, packed: Uint32Array, ysize: number): Uint32Array => {
+  const w = t.xsize;
+  const packedWidth = subSampleSize(w, t.bits);
+  const bitsPerIndex = 8 >> t.bits;
+  const mask = (1 << bitsPerIndex) - 1;
+  const out = new Uint32Array(w * ysize);
+  for (let y = 0; y < ysize; y++) {
+    for (let x = 0; x < w; x++) {
+      const p = packed[y * packedWidth + (x >> t.bits)];
+      const index = (p >> (8 + (x & ((1 << t.bits) - 1)) * bitsPerIndex)) & mask;
+      out[y * w + x] = index < t.data.length ? t.data[index] : 0; // out of range is transparent black
+    }
+  }
+  return out;
+};
+
+/**
+ * Decodes the entropy-coded pixels of one image. Only the top-level image
+ * ("level 0") may carry transforms and a meta prefix code image.
+ */
+const decodeImageStream = (br: BitReader, xsize: number, ysize: number, isLevel0: boolean): Uint32Array => {
+  const transforms: Transform[] = [];
+  let codedWidth = xsize;
+  if (isLevel0) {
+    while (br.read(1)) {
+      const type = br.read(2);
+      if (transforms.some((t) => t.type === type)) throw new Error("repeated VP8L transform");
+      const transform: Transform = { type, xsize: codedWidth, bits: 0, data: new Uint32Array(0) };
+      if (type === PREDICTOR_TRANSFORM || type === CROSS_COLOR_TRANSFORM) {
+        transform.bits = br.read(3) + 2;
+        const w = subSampleSize(codedWidth, transform.bits);
+        transform.data = decodeImageStream(br, w, subSampleSize(ysize, transform.bits), false);
+      } else if (type === COLOR_INDEXING_TRANSFORM) {
+        const colors = br.read(8) + 1;
+        transform.bits = colors > 16 ? 0 : colors > 4 ? 1 : colors > 2 ? 2 : 3;
+        const table = decodeImageStream(br, colors, 1, false);
+        for (let i = 1; i < colors; i++) table[i] = addPixels(table[i], table[i - 1]);
+        transform.data = table;
+        codedWidth = subSampleSize(codedWidth, transform.bits);
+      }
+      transforms.push(transform);
+    }
+  }
+
+  let cacheBits = 0;
+  if (br.read(1)) {
+    cacheBits = br.read(4);
+    if (cacheBits < 1 || cacheBits > 11) throw new Error("bad VP8L colour cache size");
+  }
+  const cache = new Uint32Array(cacheBits ? 1 << cacheBits : 0);
+
+  let metaBits = 0;
+  let metaWidth = 0;
+  let meta: Uint32Array | null = null;
+  let groupCount = 1;
+  if (isLevel0 && br.read(1)) {
+    metaBits = br.read(3) + 2;
+    metaWidth = subSampleSize(codedWidth, metaBits);
+    meta = decodeImageStream(br, metaWidth, subSampleSize(ysize, metaBits), false);
+    for (let i = 0; i < meta.length; i++) groupCount = Math.max(groupCount, ((meta[i] >> 8) & 0xffff) + 1);
+  }
+  const groups: HuffmanGroup[] = [];
+  for (let g = 0; g < groupCount; g++) {
+    groups.push([
+      readHuffmanCode(br, NUM_LITERAL_CODES + NUM_LENGTH_CODES + cache.length),
+      readHuffmanCode(br, NUM_LITERAL_CODES),
+      readHuffmanCode(br, NUM_LITERAL_CODES),
+      readHuffmanCode(br, NUM_LITERAL_CODES),
+      readHuffmanCode(br, NUM_DISTANCE_CODES),
+    ]);
+  }
+
+  const total = codedWidth * ysize;
+  const pixels = new Uint32Array(total);
+  const cacheShift = 32 - cacheBits;
+  const remember = (argb: number) => {
+    if (cacheBits) cache[Math.imul(argb, 0x1e35a7bd) >>> cacheShift] = argb;
+  };
+  let x = 0;
+  let y = 0;
+  for (let pos = 0; pos < total; ) {
+    const group = meta ? groups[(meta[(y >> metaBits) * metaWidth + (x >> metaBits)] >> 8) & 0xffff] : groups[0];
+    const green = readSymbol(br, group[0]);
+    if (green < NUM_LITERAL_CODES) {
+      const red = readSymbol(br, group[1]);
+      const blue = readSymbol(br, group[2]);
+      const alpha = readSymbol(br, group[3]);
+      const argb = ((alpha << 24) | (red << 16) | (green << 8) | blue) >>> 0;
+      pixels[pos++] = argb;
+      remember(argb);
+      if (++x === codedWidth) {
+        x = 0;
+        y++;
+      }
+    } else if (green < NUM_LITERAL_CODES + NUM_LENGTH_CODES) {
+      // Backward reference
+      const length = prefixValue(br, green - NUM_LITERAL_CODES);
+      const dist = planeDistance(codedWidth, prefixValue(br, readSymbol(br, group[4])));
+      if (dist > pos || pos + length > total) throw new Error("bad VP8L backward reference");
+      for (let i = 0; i < length; i++, pos++) {
+        pixels[pos] = pixels[pos - dist];
+        remember(pixels[pos]);
+      }
+      x += length;
+      y += Math.floor(x / codedWidth);
+      x %= codedWidth;
+    } else {
+      const index = green - NUM_LITERAL_CODES - NUM_LENGTH_CODES;
+      pixels[pos++] = cache[index];
+      if (++x === codedWidth) {
+        x = 0;
+        y++;
+      }
+    }
+  }
+
+  // Undo the transforms, last one read first
+  let result: Uint32Array = pixels;
+  for (let i = transforms.length - 1; i >= 0; i--) {
+    const t = transforms[i];
+    if (t.type === PREDICTOR_TRANSFORM) inversePredictor(t, result, ysize);
+    else if (t.type === CROSS_COLOR_TRANSFORM) inverseCrossColor(t, result, ysize);
+    else if (t.type === SUBTRACT_GREEN_TRANSFORM) inverseSubtractGreen(result);
+    else result = inverseColorIndexing(t, result, ysize);
+  }
+  return result;
+};
+
+export const decodeVp8l = (data: Uint8Array): RawImage => {
+  if (data.length < 5 || data[0] !== 0x2f) throw new Error("bad VP8L signature");
+  const br = createBitReader(data.subarray(1));
+  const width = br.read(14) + 1;
+  const height = br.read(14) + 1;
+  br.read(1); // alpha hint: the pixels carry alpha either way
+  if (br.read(3) !== 0) throw new Error("unknown VP8L version");
+  if (width * height > MAX_DECODED_PIXELS) throw new Error("VP8L image too large");
+
+  const pixels = decodeImageStream(br, width, height, true);
+  const image = createImage(width, height);
+  for (let i = 0; i < pixels.length; i++) {
+    const argb = pixels[i];
+    image.data[i * 4] = (argb >> 16) & 0xff;
+    image.data[i * 4 + 1] = (argb >> 8) & 0xff;
+    image.data[i * 4 + 2] = argb & 0xff;
+    image.data[i * 4 + 3] = argb >>> 24;
+  }
+  return image;
+};
+
+// Headerless stream from an ALPH chunk; alpha travels in the green channel
+export const decodeVp8lAlpha = (data: Uint8Array, width: number, height: number): Uint8Array => {
+  const pixels = decodeImageStream(createBitReader(data), width, height, true);
+  const alpha = new Uint8Array(pixels.length);
+  for (let i = 0; i < pixels.length; i++) alpha[i] = (pixels[i] >> 8) & 0xff;
+  return alpha;
+};
+
+// Bits are written least significant first, like the reader takes them
+interface BitWriter {
+  write: (bits: number, value: number) => void; // up to 24 bits
+  finish: () => Uint8Array;
+}
+
+const createBitWriter = (): BitWriter => {
+  let out = new Uint8Array(4096);
+  let pos = 0;
+  let buf = 0;
+  let count = 0;
+  const push = (byte: number) => {
+    if (pos === out.length) {
+      const grown = new Uint8Array(out.length * 2);
+      grown.set(out);
+      out = grown;
+    }
+    out[pos++] = byte;
+  };
+  return {
+    write: (bits, value) => {
+      buf |= value << count;
+      count += bits;
+      for (; count >= 8; count -= 8, buf >>>= 8) push(buf & 0xff);
+    },
+    finish: () => {
+      if (count) push(buf & 0xff);
+      return out.slice(0, pos);
+    },
+  };
+};
+
+const MAX_LENGTH_CODE_LENGTH = 7;
+
+/**
+ * Huffman code lengths for a histogram, limited to maxLength. When the tree
+ * comes out too deep, rare symbols are counted as more common and it's
+ * rebuilt, flatter, as libwebp does.
+ */
+const huffmanLengths = (counts: ArrayLike<number>, maxLength: number): Uint8Array => {
+  const lengths = new Uint8Array(counts.length);
+  const used: number[] = [];
+  for (let s = 0; s < counts.length; s++) if (counts[s]) used.push(s);
+  if (used.length === 1) lengths[used[0]] = 1;
+  if (used.length <= 1) return lengths;
+
+  const n = used.length;
+  for (let floor = 1; ; floor *= 2) {
+    // Leaves sorted by weight, then internal nodes in the order they're made, which is also by weight
+    const leaves = used.map((s) => ({ s, w: Math.max(counts[s], floor) })).sort((a, b) => a.w - b.w || a.s - b.s);
+    const weights = new Float64Array(2 * n - 1);
+    const parents = new Int32Array(2 * n - 1);
+    leaves.forEach((leaf, i) => (weights[i] = leaf.w));
+    let leaf = 0;
+    let inner = n;
+    let next = n;
+    const take = () => (leaf < n && (inner >= next || weights[leaf] <= weights[inner]) ? leaf++ : inner++);
+    for (; next < 2 * n - 1; next++) {
+      const a = take();
+      const b = take();
+      weights[next] = weights[a] + weights[b];
+      parents[a] = parents[b] = next;
+    }
+
+    const depths = new Uint8Array(2 * n - 1);
+    let deepest = 0;
+    for (let i = 2 * n - 3; i >= 0; i--) {
+      depths[i] = depths[parents[i]] + 1;
+      deepest = Math.max(deepest, depths[i]);
+    }
+    if (deepest > maxLength) continue;
+    leaves.forEach((l, i) => (lengths[l.s] = depths[i]));
+    return lengths;
+  }
+};
+
+interface PrefixCode {
+  lengths: Uint8Array; // bits written per symbol; all zero for a single-symbol code
+  codes: Uint16Array; // bit-reversed canonical codes
+}
+
+const createPrefixCode = (lengths: Uint8Array): PrefixCode => {
+  const counts = new Uint16Array(MAX_CODE_LENGTH + 1);
+  let used = 0;
+  for (const len of lengths) {
+    if (len) {
+      counts[len]++;
+      used++;
+    }
+  }
+  // The decoder reads no bits at all for a code with one symbol
+  if (used <= 1) return { lengths: new Uint8Array(lengths.length), codes: new Uint16Array(lengths.length) };
+
+  const next = new Uint16Array(MAX_CODE_LENGTH + 1);
+  for (let len = 1, code = 0; len <= MAX_CODE_LENGTH; len++) {
+    code = (code + counts[len - 1]) << 1;
+    next[len] = code;
+  }
+  const codes = new Uint16Array(lengths.length);
+  for (let s = 0; s < lengths.length; s++) {
+    const len = lengths[s];
+    if (!len) continue;
+    const code = next[len]++;
+    let reversed = 0;
+    for (let b = 0; b < len; b++) reversed |= ((code >> b) & 1) << (len - 1 - b);
+    codes[s] = reversed;
+  }
+  return { lengths, codes };
+};
+
+const writeSymbol = (bw: BitWriter, code: PrefixCode, symbol: number): void => {
+  if (code.lengths[symbol]) bw.write(code.lengths[symbol], code.codes[symbol]);
+};
+
+// Code lengths as [symbol, extra bits, extra], run-length coded with 16 (repeat the previous), 17 and 18 (zeros)
+const codeLengthTokens = (lengths: Uint8Array): [number, number, number][] => {
+  const tokens: [number, number, number][] = [];
+  let prev = 8; // what 16 repeats before any non-zero length
+  for (let i = 0; i < lengths.length; ) {
+    const len = lengths[i];
+    let run = 1;
+    while (i + run < lengths.length && lengths[i + run] === len) run++;
+    i += run;
+    if (len && len !== prev) {
+      tokens.push([len, 0, 0]);
+      prev = len;
+      run--;
+    }
+    while (run >= 3) {
+      const repeat = len ? Math.min(run, 6) : Math.min(run, 138);
+      if (len) tokens.push([16, 2, repeat - 3]);
+      else if (repeat >= 11) tokens.push([18, 7, repeat - 11]);
+      else tokens.push([17, 3, repeat - 3]);
+      run -= repeat;
+    }
+    for (; run > 0; run--) tokens.push([len, 0, 0]);
+  }
+  return tokens;
+};
+
+/**
+ * Writes the prefix code for a histogram: the simple form for up to two
+ * literal-sized symbols, otherwise code lengths coded with a code of their own.
+ */
+const writePrefixCode = (bw: BitWriter, counts: Uint32Array): PrefixCode => {
+  const used: number[] = [];
+  for (let s = 0; s < counts.length; s++) if (counts[s]) used.push(s);
+
+  if (used.length <= 2 && used.every((s) => s < NUM_LITERAL_CODES)) {
+    const [first = 0, second] = used;
+    bw.write(1, 1);
+    bw.write(1, used.length === 2 ? 1 : 0);
+    bw.write(1, first > 1 ? 1 : 0);
+    bw.write(first > 1 ? 8 : 1, first);
+    if (second !== undefined) bw.write(8, second);
+    const lengths = new Uint8Array(counts.length);
+    lengths[first] = 1;
+    if (second !== undefined) lengths[second] = 1;
+    return createPrefixCode(lengths);
+  }
+
+  const lengths = huffmanLengths(counts, MAX_CODE_LENGTH);
+  const tokens = codeLengthTokens(lengths);
+  const tokenCounts = new Uint32Array(CODE_LENGTH_ORDER.length);
+  for (const [symbol] of tokens) tokenCounts[symbol]++;
+  const lengthLengths = huffmanLengths(tokenCounts, MAX_LENGTH_CODE_LENGTH);
+  let stored = CODE_LENGTH_ORDER.length;
+  while (stored > 4 && !lengthLengths[CODE_LENGTH_ORDER[stored - 1]]) stored--;
+
+  bw.write(1, 0);
+  bw.write(4, stored - 4);
+  for (let i = 0; i < stored; i++) bw.write(3, lengthLengths[CODE_LENGTH_ORDER[i]]);
+  bw.write(1, 0); // every length is coded, no max_symbol
+  const lengthCode = createPrefixCode(lengthLengths);
+  for (const [symbol, extraBits, extra] of tokens) {
+    writeSymbol(bw, lengthCode, symbol);
+    if (extraBits) bw.write(extraBits, extra);
+  }
+  return createPrefixCode(lengths);
+};
+
+// Inverse of prefixValue: [prefix, extra bits, extra] for a length or distance code
+const toPrefix = (value: number): [number, number, number] => {
+  if (value <= 4) return [value - 1, 0, 0];
+  const d = value - 1;
+  const high = 31 - Math.clz32(d);
+  const second = (d >> (high - 1)) & 1;
+  return [2 * high + second, high - 1, d & ((1 << (high - 1)) - 1)];
+};
+
+const MIN_MATCH = 3;
+const MAX_MATCH = 4096;
+const MAX_DISTANCE_CODE = 1 << 20; // the largest value distance prefix 39 reaches
+const HASH_BITS = 16;
+const CHAIN_DEPTH = 16; // earlier spots with the same next two pixels tried per position
+const CACHE_BITS = 10;
+
+// Symbols from findBackwardRefs come in pairs: (LITERAL, argb), (CACHED, index) or (length, distance code)
+const LITERAL = 0;
+const CACHED = 1;
+
+// Short codes for the nearby pixels in DISTANCE_MAP; the first code wins where two map to one distance
+const planeCodes = (xsize: number): Map<number, number> => {
+  const codes = new Map<number, number>();
+  for (let code = 1; code <= DISTANCE_MAP.length; code++) {
+    const dist = planeDistance(xsize, code);
+    if (!codes.has(dist)) codes.set(dist, code);
+  }
+  return codes;
+};
+
+/**
+ * Greedy LZ77 over pixels: at each position the pixel to the left, the one
+ * above and the last few spots with the same next two pixels are tried.
+ * Literals that are still in the colour cache become cache hits.
+ */
+const findBackwardRefs = (pixels: Uint32Array, xsize: number, cacheBits: number): number[] => {
+  const codes = planeCodes(xsize);
+  const head = new Int32Array(1 << HASH_BITS).fill(-1);
+  const chain = new Int32Array(pixels.length);
+  const hash = (i: number) => (Math.imul(pixels[i], 0x1e35a7bd) ^ Math.imul(pixels[i + 1], 0x9e3779b1)) >>> (32 - HASH_BITS);
+  const cache = new Uint32Array(cacheBits ? 1 << cacheBits : 0);
+  const cacheShift = 32 - cacheBits;
+  // Mirrors the decoder: every pixel passes through the hash chain and the cache
+  const remember = (i: number) => {
+    if (i + 1 < pixels.length) {
+      const h = hash(i);
+      chain[i] = head[h];
+      head[h] = i;
+    }
+    if (cacheBits) cache[Math.imul(pixels[i], 0x1e35a7bd) >>> cacheShift] = pixels[i];
+  };
+
+  const refs: number[] = [];
+  for (let pos = 0; pos < pixels.length; ) {
+    const max = Math.min(MAX_MATCH, pixels.length - pos);
+    let bestLength = 0;
+    let bestDistance = 0;
+    const tryDistance = (dist: number) => {
+      let length = 0;
+      while (length < max && pixels[pos + length] === pixels[pos + length - dist]) length++;
+      if (length > bestLength) {
+        bestLength = length;
+        bestDistance = dist;
+      }
+    };
+    if (pos >= 1) tryDistance(1);
+    if (pos >= xsize && xsize > 1) tryDistance(xsize);
+    let candidate = pos + 1 < pixels.length ? head[hash(pos)] : -1;
+    for (let depth = 0; candidate >= 0 && depth < CHAIN_DEPTH && bestLength < max; depth++) {
+      const dist = pos - candidate;
+      if (!codes.has(dist) && dist + 120 > MAX_DISTANCE_CODE) break;
+      tryDistance(dist);
+      candidate = chain[candidate];
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      refs.push(bestLength, codes.get(bestDistance) ?? bestDistance + 120);
+      for (let i = 0; i < bestLength; i++) remember(pos + i);
+      pos += bestLength;
+      continue;
+    }
+    const key = Math.imul(pixels[pos], 0x1e35a7bd) >>> cacheShift;
+    if (cacheBits && cache[key] === pixels[pos]) refs.push(CACHED, key);
+    else refs.push(LITERAL, pixels[pos]);
+    remember(pos);
+    pos++;
+  }
+  return refs;
+};
+
+// Entropy-coded pixels, the inverse of decodeImageStream; only the main image uses the colour cache
+const writeImageStream = (bw: BitWriter, pixels: Uint32Array, xsize: number, isLevel0: boolean): void => {
+  const cacheBits = isLevel0 ? CACHE_BITS : 0;
+  const refs = findBackwardRefs(pixels, xsize, cacheBits);
+  const cacheStart = NUM_LITERAL_CODES + NUM_LENGTH_CODES;
+  const histograms = [
+    new Uint32Array(cacheStart + (cacheBits ? 1 << cacheBits : 0)),
+    new Uint32Array(NUM_LITERAL_CODES),
+    new Uint32Array(NUM_LITERAL_CODES),
+    new Uint32Array(NUM_LITERAL_CODES),
+    new Uint32Array(NUM_DISTANCE_CODES),
+  ];
+  for (let i = 0; i < refs.length; i += 2) {
+    const [kind, value] = [refs[i], refs[i + 1]];
+    if (kind === LITERAL) {
+      histograms[0][(value >> 8) & 0xff]++;
+      histograms[1][(value >> 16) & 0xff]++;
+      histograms[2][value & 0xff]++;
+      histograms[3][value >>> 24]++;
+    } else if (kind === CACHED) {
+      histograms[0][cacheStart + value]++;
+    } else {
+      histograms[0][NUM_LITERAL_CODES + toPrefix(kind)[0]]++;
+      histograms[4][toPrefix(value)[0]]++;
+    }
+  }
+
+  bw.write(1, cacheBits ? 1 : 0);
+  if (cacheBits) bw.write(4, cacheBits);
+  if (isLevel0) bw.write(1, 0); // one prefix code group for the whole image
+  const [green, red, blue, alpha, distance] = histograms.map((h) => writePrefixCode(bw, h));
+
+  for (let i = 0; i < refs.length; i += 2) {
+    const [kind, value] = [refs[i], refs[i + 1]];
+    if (kind === LITERAL) {
+      writeSymbol(bw, green, (value >> 8) & 0xff);
+      writeSymbol(bw, red, (value >> 16) & 0xff);
+      writeSymbol(bw, blue, value & 0xff);
+      writeSymbol(bw, alpha, value >>> 24);
+    } else if (kind === CACHED) {
+      writeSymbol(bw, green, cacheStart + value);
+    } else {
+      const [lengthPrefix, lengthBits, lengthExtra] = toPrefix(kind);
+      writeSymbol(bw, green, NUM_LITERAL_CODES + lengthPrefix);
+      if (lengthBits) bw.write(lengthBits, lengthExtra);
+      const [distPrefix, distBits, distExtra] = toPrefix(value);
+      writeSymbol(bw, distance, distPrefix);
+      if (distBits) bw.write(distBits, distExtra);
+    }
+  }
+};
+
+const subPixels = (a: number, b: number): number =>
+  (((0x00ff00ff + (a & 0xff00ff00) - (b & 0xff00ff00)) & 0xff00ff00) |
+    ((0xff00ff00 + (a & 0x00ff00ff) - (b & 0x00ff00ff)) & 0x00ff00ff)) >>>
+  0;
+
+// How far a residual is from zero, each channel read as a signed byte
+const residualCost = (argb: number): number => {
+  let cost = 0;
+  for (let shift = 0; shift < 32; shift += 8) {
+    const v = channel(argb, shift);
+    cost += v < 128 ? v : 256 - v;
+  }
+  return cost;
+};
+
+const PREDICTOR_BITS = 4; // 16x16 blocks
+const PREDICTOR_MODES = 14;
+
+// Same neighbours and edge rules as inversePredictor
+const predictAt = (pixels: Uint32Array, w: number, i: number, x: number, y: number, mode: number): number => {
+  if (y === 0) return x === 0 ? 0xff000000 : pixels[i - 1];
+  if (x === 0) return pixels[i - w];
+  return predict(mode, pixels[i - 1], pixels[i - w], pixels[i - w + 1], pixels[i - w - 1]);
+};
+
+/**
+ * Picks each block's predictor by the smallest total residual, then
+ * replaces pixels with residuals. Returns the mode sub-image.
+ */
+const applyPredictor = (pixels: Uint32Array, w: number, h: number): Uint32Array => {
+  const blocksPerRow = subSampleSize(w, PREDICTOR_BITS);
+  const modes = new Uint32Array(blocksPerRow * subSampleSize(h, PREDICTOR_BITS));
+  const size = 1 << PREDICTOR_BITS;
+  for (let by = 0; by * size < h; by++) {
+    for (let bx = 0; bx * size < w; bx++) {
+      let bestMode = 0;
+      let bestCost = Infinity;
+      for (let mode = 0; mode < PREDICTOR_MODES; mode++) {
+        let cost = 0;
+        for (let y = by * size; y < Math.min(h, (by + 1) * size) && cost < bestCost; y++) {
+          for (let x = bx * size; x < Math.min(w, (bx + 1) * size); x++) {
+            const i = y * w + x;
+            cost += residualCost(subPixels(pixels[i], predictAt(pixels, w, i, x, y, mode)));
+          }
+        }
+        if (cost < bestCost) {
+          bestCost = cost;
+          bestMode = mode;
+        }
+      }
+      modes[by * blocksPerRow + bx] = (0xff000000 | (bestMode << 8)) >>> 0;
+    }
+  }
+
+  const residuals = new Uint32Array(pixels.length);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = y * w + x;
+      const mode = (modes[(y >> PREDICTOR_BITS) * blocksPerRow + (x >> PREDICTOR_BITS)] >> 8) & 15;
+      residuals[i] = subPixels(pixels[i], predictAt(pixels, w, i, x, y, mode));
+    }
+  }
+  pixels.set(residuals);
+  return modes;
+};
+
+const subtractGreen = (pixels: Uint32Array): void => {
+  for (let i = 0; i < pixels.length; i++) {
+    const argb = pixels[i];
+    const green = (argb >> 8) & 0xff;
+    const red = (((argb >> 16) & 0xff) - green) & 0xff;
+    const blue = ((argb & 0xff) - green) & 0xff;
+    pixels[i] = ((argb & 0xff00ff00) | (red << 16) | blue) >>> 0;
+  }
+};
+
+// Sorted colours when there are at most 256, so the delta-coded table stays small
+const collectPalette = (pixels: Uint32Array): Uint32Array | null => {
+  const colors = new Set<number>();
+  for (const argb of pixels) {
+    colors.add(argb);
+    if (colors.size > 256) return null;
+  }
+  return new Uint32Array(colors).sort();
+};
+
+// Palette indices in green, several to a pixel for small palettes
+const packIndices = (pixels: Uint32Array, palette: Uint32Array, w: number, h: number, bits: number): Uint32Array => {
+  const index = new Map<number, number>();
+  palette.forEach((argb, i) => index.set(argb, i));
+  const packedWidth = subSampleSize(w, bits);
+  const bitsPerIndex = 8 >> bits;
+  const packed = new Uint32Array(packedWidth * h).fill(0xff000000);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const shift = 8 + (x & ((1 << bits) - 1)) * bitsPerIndex;
+      packed[y * packedWidth + (x >> bits)] |= index.get(pixels[y * w + x])! << shift;
+    }
+  }
+  return packed;
+};
+
+/**
+ * Encodes RGBA pixels as a VP8L bitstream (the payload of a VP8L chunk).
+ * Sides are limited to 16384 pixels by the header.
+ */
+export const encodeVp8l = (image: RawImage): Uint8Array => {
+  const { width, height, data } = image;
+  const pixels = new Uint32Array(width * height);
+  let hasAlpha = false;
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = ((data[i * 4 + 3] << 24) | (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]) >>> 0;
+    if (data[i * 4 + 3] !== 255) hasAlpha = true;
+  }
+
+  const bw = createBitWriter();
+  bw.write(8, 0x2f);
+  bw.write(14, width - 1);
+  bw.write(14, height - 1);
+  bw.write(1, hasAlpha ? 1 : 0);
+  bw.write(3, 0); // version
+
+  const palette = collectPalette(pixels);
+  let coded: Uint32Array = pixels;
+  let codedWidth = width;
+  if (palette) {
+    const bits = palette.length > 16 ? 0 : palette.length > 4 ? 1 : palette.length > 2 ? 2 : 3;
+    bw.write(1, 1);
+    bw.write(2, COLOR_INDEXING_TRANSFORM);
+    bw.write(8, palette.length - 1);
+    const deltas = palette.map((argb, i) => (i ? subPixels(argb, palette[i - 1]) : argb));
+    writeImageStream(bw, deltas, palette.length, false);
+    coded = packIndices(pixels, palette, width, height, bits);
+    codedWidth = subSampleSize(width, bits);
+  } else {
+    bw.write(1, 1);
+    bw.write(2, SUBTRACT_GREEN_TRANSFORM);
+    subtractGreen(pixels);
+    bw.write(1, 1);
+    bw.write(2, PREDICTOR_TRANSFORM);
+    bw.write(3, PREDICTOR_BITS - 2);
+    const modes = applyPredictor(pixels, width, height);
+    writeImageStream(bw, modes, subSampleSize(width, PREDICTOR_BITS), false);
+  }
+  bw.write(1, 0); // no more transforms
+
+  writeImageStream(bw, coded, codedWidth, true);
+  return bw.finish();
+};
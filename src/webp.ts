@@ -0,0 +1,194 @@
+/**
+ * WebP container: simple lossy (VP8) and lossless (VP8L) files, and the
+ * extended format with an ALPH chunk or an animation, of which only the
+ * first frame is decoded. Encoding writes lossless files, extended only to
+ * carry an ICC profile.
+ */
+
+import { MAX_DECODED_PIXELS, createImage, type RawImage } from "./image";
+import { decodeVp8, type Vp8Planes } from "./vp8";
+import { decodeVp8l, decodeVp8lAlpha, encodeVp8l } from "./vp8l";
+
+interface WebpChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+const fourcc = (buf: Uint8Array, pos: number): string => String.fromCharCode(...buf.subarray(pos, pos + 4));
+const readUint24 = (buf: Uint8Array, pos: number): number => buf[pos] | (buf[pos + 1] << 8) | (buf[pos + 2] << 16);
+
+export const isWebp = (buf: Uint8Array): boolean =>
+  buf.length >= 16 && fourcc(buf, 0) === "RIFF" && fourcc(buf, 8) === "WEBP";
+
+// Chunks are padded to an even length; a truncated last chunk is kept as is
+const parseChunks = (buf: Uint8Array): WebpChunk[] => {
+  const chunks: WebpChunk[] = [];
+  let pos = 0;
+  while (pos + 8 <= buf.length) {
+    const size = (buf[pos + 4] | (buf[pos + 5] << 8) | (buf[pos + 6] << 16) | (buf[pos + 7] << 24)) >>> 0;
+    const start = pos + 8;
+    chunks.push({ type: fourcc(buf, pos), data: buf.subarray(start, Math.min(start + size, buf.length)) });
+    pos = start + size + (size & 1);
+  }
+  return chunks;
+};
+
+const clip8 = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+// BT.601 studio-swing YUV to RGB in fixed point, as libwebp does it
+const yuvToRgb = (y: number, u: number, v: number, out: Uint8Array, pos: number): void => {
+  const luma = (y * 19077) >> 8;
+  out[pos] = clip8((luma + ((v * 26149) >> 8) - 14234) >> 6);
+  out[pos + 1] = clip8((luma - ((u * 6419) >> 8) - ((v * 13320) >> 8) + 8708) >> 6);
+  out[pos + 2] = clip8((luma + ((u * 33050) >> 8) - 17685) >> 6);
+};
+
+/**
+ * Chroma for one pixel, interpolated between the four nearest samples
+ * (weights 9/3/3/1) like libwebp's "fancy" upsampler.
+ */
+const upsample = (plane: Uint8Array, stride: number, chromaWidth: number, chromaHeight: number, x: number, y: number) => {
+  const nearX = x >> 1;
+  const nearY = y >> 1;
+  const farX = Math.min(Math.max(x & 1 ? nearX + 1 : nearX - 1, 0), chromaWidth - 1);
+  const farY = Math.min(Math.max(y & 1 ? nearY + 1 : nearY - 1, 0), chromaHeight - 1);
+  const a = plane[nearY * stride + nearX];
+  const c = plane[farY * stride + nearX];
+  if (farX === nearX) return (3 * a + c + 2) >> 2; // left and right edges interpolate vertically only
+  const b = plane[nearY * stride + farX];
+  const d = plane[farY * stride + farX];
+  return (((a + b + c + d + 8 + 2 * (b + c)) >> 3) + a) >> 1;
+};
+
+const planesToRgba = (planes: Vp8Planes, alpha: Uint8Array | null): RawImage => {
+  const { width, height, yStride, uvStride } = planes;
+  const chromaWidth = (width + 1) >> 1;
+  const chromaHeight = (height + 1) >> 1;
+  const image = createImage(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const u = upsample(planes.u, uvStride, chromaWidth, chromaHeight, x, y);
+      const v = upsample(planes.v, uvStride, chromaWidth, chromaHeight, x, y);
+      yuvToRgb(planes.y[y * yStride + x], u, v, image.data, i * 4);
+      image.data[i * 4 + 3] = alpha ? alpha[i] : 255;
+    }
+  }
+  return image;
+};
+
+/**
+ * Decodes an ALPH chunk: a header byte (compression, then prediction
+ * filter) followed by raw or VP8L-compressed alpha values.
+ */
+const decodeAlpha = (chunk: Uint8Array, width: number, height: number): Uint8Array => {
+  const compression = chunk[0] & 3;
+  const filter = (chunk[0] >> 2) & 3;
+  let alpha: Uint8Array;
+  if (compression === 0) {
+    alpha = new Uint8Array(width * height);
+    alpha.set(chunk.subarray(1, 1 + alpha.length));
+  } else if (compression === 1) {
+    alpha = decodeVp8lAlpha(chunk.subarray(1), width, height);
+  } else {
+    throw new Error("unknown WebP alpha compression");
+  }
+  if (!filter) return alpha;
+
+  // Undo horizontal (1), vertical (2) or gradient (3) prediction. The first
+  // row always predicts from the left and the first column from above.
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      const i = row + x;
+      let pred: number;
+      if (y === 0) pred = x === 0 ? 0 : alpha[i - 1];
+      else if (x === 0 || filter === 2) pred = alpha[i - width];
+      else if (filter === 1) pred = alpha[i - 1];
+      else pred = clip8(alpha[i - 1] + alpha[i - width] - alpha[i - width - 1]);
+      alpha[i] = (alpha[i] + pred) & 0xff;
+    }
+  }
+  return alpha;
+};
+
+// Decodes one frame's bitstream chunks: VP8 (with optional ALPH) or VP8L
+const decodeFrame = (chunks: WebpChunk[]): RawImage => {
+  const lossless = chunks.find((c) => c.type === "VP8L");
+  if (lossless) return decodeVp8l(lossless.data);
+  const lossy = chunks.find((c) => c.type === "VP8 ");
+  if (!lossy) throw new Error("WebP frame has no bitstream");
+  const planes = decodeVp8(lossy.data);
+  const alph = chunks.find((c) => c.type === "ALPH");
+  return planesToRgba(planes, alph ? decodeAlpha(alph.data, planes.width, planes.height) : null);
+};
+
+// Places the first animation frame on a transparent canvas
+const decodeFirstFrame = (vp8x: Uint8Array, anmf: Uint8Array): RawImage => {
+  const canvasWidth = readUint24(vp8x, 4) + 1;
+  const canvasHeight = readUint24(vp8x, 7) + 1;
+  if (canvasWidth * canvasHeight > MAX_DECODED_PIXELS) throw new Error("WebP canvas too large");
+  const left = readUint24(anmf, 0) * 2;
+  const top = readUint24(anmf, 3) * 2;
+  const frame = decodeFrame(parseChunks(anmf.subarray(16)));
+  const canvas = createImage(canvasWidth, canvasHeight);
+  const rowBytes = Math.max(0, Math.min(frame.width, canvasWidth - left)) * 4;
+  for (let y = 0; y < frame.height && top + y < canvasHeight; y++) {
+    const src = y * frame.width * 4;
+    canvas.data.set(frame.data.subarray(src, src + rowBytes), ((top + y) * canvasWidth + left) * 4);
+  }
+  return canvas;
+};
+
+export const decodeWebp = (buf: Uint8Array): RawImage | null => {
+  if (!isWebp(buf)) return null;
+  try {
+    const chunks = parseChunks(buf.subarray(12));
+    const vp8x = chunks.find((c) => c.type === "VP8X");
+    const anmf = chunks.find((c) => c.type === "ANMF");
+    if (vp8x && anmf) return decodeFirstFrame(vp8x.data, anmf.data);
+    return decodeFrame(chunks);
+  } catch {
+    return null; // corrupt or unsupported
+  }
+};
+
+// VP8L headers store each side in 14 bits
+export const MAX_WEBP_SIZE = 16384;
+
+const VP8X_ICC_FLAG = 0x20;
+const VP8X_ALPHA_FLAG = 0x10;
+
+const buildWebp = (chunks: WebpChunk[]): Uint8Array => {
+  const size = 4 + chunks.reduce((sum, c) => sum + 8 + c.data.length + (c.data.length & 1), 0);
+  const out = new Uint8Array(8 + size);
+  const view = new DataView(out.buffer);
+  const writeFourcc = (pos: number, type: string) => out.set([...type].map((ch) => ch.charCodeAt(0)), pos);
+  writeFourcc(0, "RIFF");
+  view.setUint32(4, size, true);
+  writeFourcc(8, "WEBP");
+  let pos = 12;
+  for (const c of chunks) {
+    writeFourcc(pos, c.type);
+    view.setUint32(pos + 4, c.data.length, true);
+    out.set(c.data, pos + 8);
+    pos += 8 + c.data.length + (c.data.length & 1);
+  }
+  return out;
+};
+
+/**
+ * Encodes RGBA pixels as a lossless WebP. An ICC profile (raw, not the
+ * zlib-compressed form PNG stores) moves the file to the extended format.
+ */
+export const encodeWebp = (image: RawImage, iccProfile: Uint8Array | null = null): Uint8Array => {
+  const vp8l = { type: "VP8L", data: encodeVp8l(image) };
+  if (!iccProfile) return buildWebp([vp8l]);
+
+  const vp8x = new Uint8Array(10);
+  const hasAlpha = image.data.some((v, i) => (i & 3) === 3 && v !== 255);
+  vp8x[0] = VP8X_ICC_FLAG | (hasAlpha ? VP8X_ALPHA_FLAG : 0);
+  vp8x.set([(image.width - 1) & 0xff, ((image.width - 1) >> 8) & 0xff, (image.width - 1) >> 16], 4);
+  vp8x.set([(image.height - 1) & 0xff, ((image.height - 1) >> 8) & 0xff, (image.height - 1) >> 16], 7);
+  return buildWebp([{ type: "VP8X", data: vp8x }, { type: "ICCP", data: iccProfile }, vp8l]);
+};
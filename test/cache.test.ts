@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Env } from "../src/env";
+import {
+  GITHUB,
+  PAGES,
+  createFakeBucket,
+  createTestContext,
+  installFakeUpstream,
+  type FakeUpstream,
+} from "./upstream";
+
+const env: Env = { RATE_LIMIT: "0", UPSTREAM_RATE_LIMIT: "0" };
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const USER_AVATAR = "https://avatars.githubusercontent.com/u/583231?v=4";
+
+let upstream: FakeUpstream;
+let cache: typeof import("../src/cache");
+let worker: typeof import("../src/index").default;
+
+// Only Date is faked; streams and promises still run on real timers
+const advance = (ms: number): void => void vi.setSystemTime(Date.now() + ms);
+
+beforeEach(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(new Date("2026-01-01T00:00:00Z"));
+  vi.resetModules();
+  upstream = installFakeUpstream();
+  upstream.pages.set("/octocat", PAGES.user);
+  cache = await import("../src/cache");
+  worker = (await import("../src/index")).default;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const get = async (path: string): Promise<Response> => {
+  const { ctx, settle } = createTestContext();
+  const response = await worker.fetch(new Request(`https://ghlogo.test${path}`), env, ctx);
+  await settle();
+  return response;
+};
+
+describe("cache entries", () => {
+  const lookup = async (path: string) => (await cache.getCached(path, env, createTestContext().ctx))?.freshness ?? null;
+
+  it("ages found entries from fresh to stale to expired to gone", async () => {
+    cache.setCache("/octocat", USER_AVATAR, env, createTestContext().ctx);
+    expect(await lookup("/octocat")).toBe("fresh");
+
+    advance(HOUR);
+    expect(await lookup("/octocat")).toBe("stale");
+
+    advance(DAY);
+    expect(await lookup("/octocat")).toBe("expired");
+
+    advance(7 * DAY);
+    expect(await lookup("/octocat")).toBeNull();
+  });
+
+  it("caps isolate memory, dropping the least recently used path", async () => {
+    const { ctx } = createTestContext();
+    for (let i = 0; i < cache.MAX_MEMORY_ENTRIES; i++) cache.setCache(`/user${i}`, USER_AVATAR, env, ctx);
+    expect(await lookup("/user0")).toBe("fresh");
+
+    cache.setCache("/one-more", USER_AVATAR, env, ctx);
+    expect(cache.memoryCacheSize()).toBe(cache.MAX_MEMORY_ENTRIES);
+    expect(await lookup("/user0")).toBe("fresh");
+    expect(await lookup("/user1")).toBeNull();
+  });
+
+  it("drops misses as soon as their 5 minutes are up", async () => {
+    cache.setCache("/octocat/missing", null, env, createTestContext().ctx);
+    advance(5 * MINUTE - 1);
+    expect(await lookup("/octocat/missing")).toBe("fresh");
+    advance(1);
+    expect(await lookup("/octocat/missing")).toBeNull();
+  });
+
+  // Logo misses take a search to rule out, so they're kept as long as a find
+  it("keeps misses for a longer TTL when given one", async () => {
+    cache.setCache("/octocat/hello/~logo", null, env, createTestContext().ctx, { ttl: cache.CACHE_TTL_MS });
+    advance(HOUR - 1);
+    expect(await lookup("/octocat/hello/~logo")).toBe("fresh");
+    advance(1);
+    expect(await lookup("/octocat/hello/~logo")).toBeNull();
+  });
+});
+
+describe("lookups over time", () => {
+  it("serves stale images while refreshing in the background", async () => {
+    await get("/octocat");
+    advance(HOUR + MINUTE);
+
+    const newAvatar = "https://avatars.githubusercontent.com/u/583231?v=5";
+    upstream.pages.set("/octocat", PAGES.user.replaceAll(USER_AVATAR, newAvatar));
+    expect((await get("/octocat")).headers.get("Location")).toBe(USER_AVATAR);
+    expect(upstream.count(`${GITHUB}/octocat`)).toBe(2);
+    expect((await get("/octocat")).headers.get("Location")).toBe(newAvatar);
+  });
+
+  it("keeps serving the last image while GitHub fails", async () => {
+    await get("/octocat");
+    advance(3 * DAY);
+    upstream.pages.set("/octocat", 503);
+
+    const response = await get("/octocat");
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe(USER_AVATAR);
+
+    advance(7 * DAY);
+    expect((await get("/octocat")).status).toBe(502);
+  });
+
+  it("asks GitHub again once a cached 404 expires", async () => {
+    await get("/octocat/missing");
+    advance(4 * MINUTE);
+    await get("/octocat/missing");
+    expect(upstream.count(`${GITHUB}/octocat/missing`)).toBe(1);
+
+    upstream.pages.set("/octocat/missing", PAGES.repo);
+    advance(2 * MINUTE);
+    expect((await get("/octocat/missing")).status).toBe(302);
+    expect(upstream.count(`${GITHUB}/octocat/missing`)).toBe(2);
+  });
+});
+
+describe("transformed images", () => {
+  it("deletes R2 objects that a read finds expired", async () => {
+    const { objects, bucket } = createFakeBucket();
+    const bucketEnv: Env = { ...env, IMAGE_CACHE: bucket };
+    const imagecache = await import("../src/imagecache");
+    const { ctx, settle } = createTestContext();
+
+    imagecache.setCachedImage("ratio=1:1 png https://example.com/a.png", { status: "original" }, bucketEnv, ctx);
+    await settle();
+    expect(objects.size).toBe(1);
+    expect(await imagecache.getCachedImage("ratio=1:1 png https://example.com/a.png", bucketEnv, ctx)).toEqual({
+      status: "original",
+    });
+
+    advance(DAY);
+    expect(await imagecache.getCachedImage("ratio=1:1 png https://example.com/a.png", bucketEnv, ctx)).toBeNull();
+    await settle();
+    expect(objects.size).toBe(0);
+  });
+});
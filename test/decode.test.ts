@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { decodeImage, type ImageFormat } from "../src/decode";
+import type { RawImage } from "../src/image";
+import { decodePng } from "../src/png";
+import gifTransparent from "./fixtures/images/gif-transparent.gif?inline";
+import jpeg420Progressive from "./fixtures/images/jpeg-420-progressive.jpg?inline";
+import jpeg420 from "./fixtures/images/jpeg-420.jpg?inline";
+import jpeg422 from "./fixtures/images/jpeg-422.jpg?inline";
+import jpeg440 from "./fixtures/images/jpeg-440.jpg?inline";
+import jpeg444 from "./fixtures/images/jpeg-444.jpg?inline";
+import jpegCmyk from "./fixtures/images/jpeg-cmyk.jpg?inline";
+import jpegGray from "./fixtures/images/jpeg-gray.jpg?inline";
+import libvipsGifTransparent from "./fixtures/images/libvips/gif-transparent.png?inline";
+import libvipsJpeg420Progressive from "./fixtures/images/libvips/jpeg-420-progressive.png?inline";
+import libvipsJpeg420 from "./fixtures/images/libvips/jpeg-420.png?inline";
+import libvipsJpeg422 from "./fixtures/images/libvips/jpeg-422.png?inline";
+import libvipsJpeg440 from "./fixtures/images/libvips/jpeg-440.png?inline";
+import libvipsJpeg444 from "./fixtures/images/libvips/jpeg-444.png?inline";
+import libvipsJpegGray from "./fixtures/images/libvips/jpeg-gray.png?inline";
+import libvipsWebpLossless from "./fixtures/images/libvips/webp-lossless.png?inline";
+import libvipsWebpLossyAlpha from "./fixtures/images/libvips/webp-lossy-alpha.png?inline";
+import libvipsWebpLossy from "./fixtures/images/libvips/webp-lossy.png?inline";
+import webpLossless from "./fixtures/images/webp-lossless.webp?inline";
+import webpLossyAlpha from "./fixtures/images/webp-lossy-alpha.webp?inline";
+import webpLossy from "./fixtures/images/webp-lossy.webp?inline";
+import { dumpImage } from "./golden";
+
+/**
+ * The same 35x21 test card (hard-edged colour checks, a bar, gradients, and
+ * alpha where the format has it) saved by libvips in each format, plus 4:2:2
+ * and 4:4:0 JPEGs from a minimal encoder since libvips writes neither. Each
+ * has libvips' own decode beside it as a PNG.
+ */
+const fromDataUrl = (dataUrl: string): Uint8Array =>
+  Uint8Array.from(atob(dataUrl.slice(dataUrl.indexOf(",") + 1)), (c) => c.charCodeAt(0));
+
+const psnr = (a: RawImage, b: RawImage): number => {
+  let squared = 0;
+  for (let i = 0; i < a.data.length; i++) squared += (a.data[i] - b.data[i]) ** 2;
+  return 10 * Math.log10((255 * 255 * a.data.length) / squared);
+};
+
+const decode = async (dataUrl: string, format: ImageFormat): Promise<RawImage> => {
+  const image = await decodeImage(fromDataUrl(dataUrl));
+  expect(image?.format).toBe(format);
+  expect(image).toMatchObject({ width: 35, height: 21 });
+  return image!;
+};
+
+// Rounding and IDCT precision differ from libjpeg-turbo, so JPEGs only have to come close
+describe("JPEG", () => {
+  it.each([
+    ["444", jpeg444, libvipsJpeg444],
+    ["420", jpeg420, libvipsJpeg420],
+    ["420-progressive", jpeg420Progressive, libvipsJpeg420Progressive],
+    ["422", jpeg422, libvipsJpeg422],
+    ["440", jpeg440, libvipsJpeg440],
+    ["gray", jpegGray, libvipsJpegGray],
+  ])("decodes %s to the golden output, within 45 dB of libvips", async (name, fixture, reference) => {
+    const image = await decode(fixture, "jpeg");
+    expect(psnr(image, (await decodePng(fromDataUrl(reference)))!)).toBeGreaterThan(45);
+    await expect(dumpImage(image)).toMatchFileSnapshot(`golden/jpeg-${name}.txt`);
+  });
+
+  // libvips converts CMYK through an ICC profile, so there's no reference to compare with
+  it("decodes CMYK to the golden output", async () => {
+    const image = await decode(jpegCmyk, "jpeg");
+    await expect(dumpImage(image)).toMatchFileSnapshot("golden/jpeg-cmyk.txt");
+  });
+});
+
+describe.each([
+  ["gif", "transparent", gifTransparent, libvipsGifTransparent],
+  ["webp", "lossy", webpLossy, libvipsWebpLossy],
+  ["webp", "lossy-alpha", webpLossyAlpha, libvipsWebpLossyAlpha],
+  ["webp", "lossless", webpLossless, libvipsWebpLossless],
+] as [ImageFormat, string, string, string][])("%s %s", (format, name, fixture, reference) => {
+  it("decodes to exactly what libvips does", async () => {
+    const image = await decode(fixture, format);
+    expect(image.data).toEqual((await decodePng(fromDataUrl(reference)))!.data);
+    await expect(dumpImage(image)).toMatchFileSnapshot(`golden/${format}-${name}.txt`);
+  });
+});
@@ -0,0 +1,10 @@
+import type { RawImage } from "../src/image";
+
+// One pixel per 8 hex digits, one row per line, so golden diffs point at pixels
+export const dumpImage = ({ width, height, data }: RawImage): string => {
+  const hex = (i: number) => [...data.subarray(i, i + 4)].map((v) => v.toString(16).padStart(2, "0")).join("");
+  const rows = Array.from({ length: height }, (_, y) =>
+    Array.from({ length: width }, (_, x) => hex((y * width + x) * 4)).join(" "),
+  );
+  return `${width}x${height}\n${rows.join("\n")}\n`;
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { findReadmeImage } from "../src/logo";
+import readme from "./fixtures/github/readme.md?raw";
+
+const RAW = "https://raw.githubusercontent.com/octo-org/hello-world/HEAD";
+
+describe("README images", () => {
+  it("skips badges and resolves root-relative paths against the repo root", () => {
+    expect(findReadmeImage(readme, "/octo-org/hello-world", "README.md")).toBe(`${RAW}/docs/images/logo.png`);
+  });
+
+  it("resolves relative paths against the README's directory, never above the root", () => {
+    const image = (src: string, file: string) => findReadmeImage(`![logo](${src})`, "/octo-org/hello-world", file);
+    expect(image("logo.png", "README.md")).toBe(`${RAW}/logo.png`);
+    expect(image("./assets/logo.png", "docs/README.md")).toBe(`${RAW}/docs/assets/logo.png`);
+    expect(image("../logo.png", "docs/README.md")).toBe(`${RAW}/logo.png`);
+    expect(image("../../logo.png", "README.md")).toBe(`${RAW}/logo.png`);
+    expect(image("/assets/logo.png", "docs/README.md")).toBe(`${RAW}/assets/logo.png`);
+  });
+
+  it("keeps absolute URLs, pointing github.com blob pages at the raw file", () => {
+    const image = (src: string) => findReadmeImage(`<img src="${src}">`, "/octo-org/hello-world", "README.md");
+    expect(image("https://example.com/logo.png")).toBe("https://example.com/logo.png");
+    expect(image("https://github.com/octo-org/hello-world/blob/main/logo.png")).toBe(
+      "https://github.com/octo-org/hello-world/raw/main/logo.png",
+    );
+    expect(image("data:image/png;base64,AAAA")).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+import { createImage, type RawImage } from "../src/image";
+import type { PadOptions } from "../src/pad";
+import { buildPng, crc32, decodePng, encodePng, parsePngChunks, zlibCompress } from "../src/png";
+import { transformAndEncode, type TransformOptions } from "../src/transform";
+import { dumpImage } from "./golden";
+import { CHANNELS, encodeTestPng, type ColorType, type TestPng } from "./pngfixture";
+
+// Every color type at every bit depth the spec allows
+const FORMATS: [ColorType, number][] = [
+  [0, 1], [0, 2], [0, 4], [0, 8], [0, 16],
+  [2, 8], [2, 16],
+  [3, 1], [3, 2], [3, 4], [3, 8],
+  [4, 8], [4, 16],
+  [6, 8], [6, 16],
+];
+
+// Odd sizes leave partial bytes at low bit depths and uneven Adam7 passes
+const WIDTH = 9;
+const HEIGHT = 6;
+
+const createPalette = (entries: number): Uint8Array =>
+  new Uint8Array(Array.from({ length: entries }, (_, i) => [(i * 71) % 256, (i * 113) % 256, (i * 197) % 256]).flat());
+
+// Deterministic samples that cover each depth's range; some formats also get a tRNS chunk
+const testPng = (colorType: ColorType, bitDepth: number, filter: TestPng["filter"], interlace = false): TestPng => {
+  const max = (1 << bitDepth) - 1;
+  const pixel = (x: number, y: number): number[] =>
+    Array.from({ length: CHANNELS[colorType] }, (_, c) => ((((x + 1) * 73 + (y + 1) * 151 + c * 199) * 40503) % 65536) % (max + 1));
+  const key = (samples: number[]) => new Uint8Array(samples.flatMap((v) => [v >> 8, v & 0xff]));
+  const trns =
+    colorType === 3
+      ? new Uint8Array(Array.from({ length: Math.min(8, max + 1) }, (_, i) => (i * 37) % 256))
+      : (colorType === 0 && bitDepth === 16) || (colorType === 2 && bitDepth === 8)
+        ? key(pixel(0, 0))
+        : undefined;
+  return {
+    width: WIDTH,
+    height: HEIGHT,
+    colorType,
+    bitDepth,
+    pixel,
+    filter,
+    interlace,
+    palette: colorType === 3 ? createPalette(max + 1) : undefined,
+    trns,
+  };
+};
+
+const chunkCrcsMatch = (png: Uint8Array): boolean => {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  for (let offset = 8; offset < png.length; ) {
+    const length = view.getUint32(offset);
+    if (view.getUint32(offset + 8 + length) !== crc32(png, offset + 4, offset + 8 + length)) return false;
+    offset += 12 + length;
+  }
+  return true;
+};
+
+const pad = async (png: Uint8Array, options: Partial<PadOptions>): Promise<RawImage> => {
+  const padOptions: PadOptions = { ratioW: 2, ratioH: 1, fill: "solid", background: [255, 0, 255, 128], align: "center", ...options };
+  const output = await transformAndEncode(png, { pad: padOptions, resize: null, mask: null }, "png");
+  expect(output?.format).toBe("png");
+  expect(chunkCrcsMatch(output!.body)).toBe(true);
+  return (await decodePng(output!.body))!;
+};
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("covers only the given range", () => {
+    const bytes = new TextEncoder().encode("xx123456789yy");
+    expect(crc32(bytes, 2, 11)).toBe(0xcbf43926);
+  });
+});
+
+describe("chunks", () => {
+  it("round-trips through buildPng and parsePngChunks", () => {
+    const chunks = [
+      { type: "IHDR", data: new Uint8Array(13).fill(1) },
+      { type: "tEXt", data: new TextEncoder().encode("Comment\0hello") },
+      { type: "IEND", data: new Uint8Array(0) },
+    ];
+    const png = buildPng(chunks);
+    expect(chunkCrcsMatch(png)).toBe(true);
+    expect(parsePngChunks(png)).toEqual(chunks);
+  });
+
+  it("stops at IEND", () => {
+    const png = buildPng([{ type: "IEND", data: new Uint8Array(0) }]);
+    const trailing = new Uint8Array([...png, 0, 0, 0, 0, 0x78, 0x78, 0x78, 0x78, 0, 0, 0, 0]);
+    expect(parsePngChunks(trailing).map((c) => c.type)).toEqual(["IEND"]);
+  });
+});
+
+describe("encoding", () => {
+  // colors distinct RGBA values, the first of them translucent
+  const stripes = (colors: number): RawImage => {
+    const image = createImage(24, 12);
+    for (let i = 0; i < image.width * image.height; i++) {
+      const c = i % colors;
+      image.data.set([c & 0xff, c >> 8, 255 - (c & 0xff), c === 0 ? 128 : 255], i * 4);
+    }
+    return image;
+  };
+  const header = (png: Uint8Array) => parsePngChunks(png)[0].data;
+
+  it.each([
+    [2, 3, 1],
+    [4, 3, 2],
+    [16, 3, 4],
+    [256, 3, 8],
+    [257, 6, 8],
+  ])("stores %i colours as color type %i at %i bits, losslessly", async (colors, colorType, bitDepth) => {
+    const image = stripes(colors);
+    const png = await encodePng(image);
+    expect([header(png)[9], header(png)[8]]).toEqual([colorType, bitDepth]);
+    expect((await decodePng(png))!.data).toEqual(image.data);
+    if (colorType === 3) expect(parsePngChunks(png).find((c) => c.type === "tRNS")?.data.length).toBe(1);
+  });
+
+  it("drops alpha from opaque images with too many colours for a palette", async () => {
+    const image = createImage(32, 32);
+    for (let i = 0; i < 32 * 32; i++) image.data.set([i & 0xff, i >> 8, 7, 255], i * 4);
+    expect(header(await encodePng(image))[9]).toBe(2);
+  });
+
+  it("keeps only the colour chunk that takes precedence", async () => {
+    const chunk = (type: string) => ({ type, data: new Uint8Array(4) });
+    const source = buildPng([
+      { type: "IHDR", data: new Uint8Array([0, 0, 0, 1, 0, 0, 0, 1, 8, 0, 0, 0, 0]) },
+      ...["pHYs", "gAMA", "cHRM", "sRGB"].map(chunk),
+      { type: "IDAT", data: await zlibCompress(new Uint8Array([0, 0])) },
+      { type: "IEND", data: new Uint8Array(0) },
+    ]);
+    expect((await decodePng(source))!.ancillary.map((c) => c.type)).toEqual(["sRGB"]);
+  });
+});
+
+describe.each(FORMATS)("color type %i at %i bits", (colorType, bitDepth) => {
+  it("decodes every filter type and Adam7 to the same pixels", async () => {
+    const expected = await decodePng(await encodeTestPng(testPng(colorType, bitDepth, () => 0)));
+    expect(expected).not.toBeNull();
+    const variants = [
+      ...[1, 2, 3, 4].map((filter) => testPng(colorType, bitDepth, () => filter)),
+      testPng(colorType, bitDepth, (row) => row % 5),
+      testPng(colorType, bitDepth, (row) => row % 5, true),
+    ];
+    for (const variant of variants) {
+      const decoded = await decodePng(await encodeTestPng(variant));
+      expect(decoded?.data).toEqual(expected!.data);
+    }
+  });
+
+  it("pads to the golden output", async () => {
+    const png = await encodeTestPng(testPng(colorType, bitDepth, (row) => row % 5));
+    const padded = await pad(png, {});
+    await expect(dumpImage(padded)).toMatchFileSnapshot(`golden/pad-type${colorType}-${bitDepth}bit.txt`);
+  });
+});
+
+describe("fill modes", () => {
+  const source = () => encodeTestPng(testPng(6, 8, (row) => row % 5));
+
+  it.each([
+    ["edge", { fill: "edge" }],
+    ["blur", { fill: "blur" }],
+    ["auto", { fill: "solid", background: "auto" }],
+    ["tall-start", { ratioW: 1, ratioH: 2, fill: "edge", align: "start" }],
+  ] as [string, Partial<PadOptions>][])("pads with %s to the golden output", async (name, options) => {
+    const padded = await pad(await source(), options);
+    await expect(dumpImage(padded)).toMatchFileSnapshot(`golden/pad-fill-${name}.txt`);
+  });
+});
+
+describe("size limits", () => {
+  // 2048x1024 is under the cap; padding it to 1:1 reaches the cap exactly, 1:2 would double it
+  it("refuses padding that would pass the pixel cap", async () => {
+    const png = await encodePng(createImage(2048, 1024));
+    const options = (ratioH: number): TransformOptions => ({
+      pad: { ratioW: 1, ratioH, fill: "solid", background: [0, 0, 0, 0], align: "center" },
+      resize: null,
+      mask: null,
+    });
+    expect(await transformAndEncode(png, options(2), "png")).toBeNull();
+    expect(await transformAndEncode(png, options(1), "png")).not.toBeNull();
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Builds test PNGs sample by sample, with a chosen filter for each scanline
+ * and optional Adam7 interlacing, so every decoder path can be exercised
+ * without checking in binary fixtures.
+ */
+
+import { buildPng, zlibCompress, type PngChunk } from "../src/png";
+
+export type ColorType = 0 | 2 | 3 | 4 | 6;
+
+export interface TestPng {
+  width: number;
+  height: number;
+  colorType: ColorType;
+  bitDepth: number;
+  pixel: (x: number, y: number) => number[]; // samples at bitDepth, one per channel
+  filter: (scanline: number) => number; // counted across all Adam7 passes
+  interlace?: boolean;
+  palette?: Uint8Array;
+  trns?: Uint8Array;
+}
+
+export const CHANNELS: Record<ColorType, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+const ADAM7 = [
+  { x: 0, y: 0, dx: 8, dy: 8 },
+  { x: 4, y: 0, dx: 8, dy: 8 },
+  { x: 0, y: 4, dx: 4, dy: 8 },
+  { x: 2, y: 0, dx: 4, dy: 4 },
+  { x: 0, y: 2, dx: 2, dy: 4 },
+  { x: 1, y: 0, dx: 2, dy: 2 },
+  { x: 0, y: 1, dx: 1, dy: 2 },
+];
+
+const packSamples = (samples: number[], bitDepth: number): Uint8Array => {
+  const out = new Uint8Array(Math.ceil((samples.length * bitDepth) / 8));
+  samples.forEach((v, i) => {
+    if (bitDepth === 16) {
+      out[i * 2] = v >> 8;
+      out[i * 2 + 1] = v & 0xff;
+    } else if (bitDepth === 8) {
+      out[i] = v;
+    } else {
+      const bit = i * bitDepth;
+      out[bit >> 3] |= v << (8 - bitDepth - (bit & 7));
+    }
+  });
+  return out;
+};
+
+const paeth = (a: number, b: number, c: number): number => {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+};
+
+// The filter byte followed by the row encoded against its predictor
+const filterRow = (type: number, row: Uint8Array, prev: Uint8Array | null, bpp: number): Uint8Array => {
+  const out = new Uint8Array(row.length + 1);
+  out[0] = type;
+  for (let i = 0; i < row.length; i++) {
+    const a = i >= bpp ? row[i - bpp] : 0;
+    const b = prev ? prev[i] : 0;
+    const c = prev && i >= bpp ? prev[i - bpp] : 0;
+    const predictor = [0, a, b, (a + b) >>> 1, paeth(a, b, c)][type];
+    out[i + 1] = (row[i] - predictor) & 0xff;
+  }
+  return out;
+};
+
+export const encodeTestPng = async (png: TestPng): Promise<Uint8Array> => {
+  const { width, height, colorType, bitDepth } = png;
+  const bpp = Math.max(1, (CHANNELS[colorType] * bitDepth) >> 3);
+  const passes = png.interlace ? ADAM7 : [{ x: 0, y: 0, dx: 1, dy: 1 }];
+
+  const scanlines: Uint8Array[] = [];
+  for (const pass of passes) {
+    if (pass.x >= width) continue; // empty passes have no scanlines
+    let prev: Uint8Array | null = null;
+    for (let y = pass.y; y < height; y += pass.dy) {
+      const samples: number[] = [];
+      for (let x = pass.x; x < width; x += pass.dx) samples.push(...png.pixel(x, y));
+      const row = packSamples(samples, bitDepth);
+      scanlines.push(filterRow(png.filter(scanlines.length), row, prev, bpp));
+      prev = row;
+    }
+  }
+  const raw = new Uint8Array(scanlines.reduce((n, s) => n + s.length, 0));
+  scanlines.reduce((offset, s) => (raw.set(s, offset), offset + s.length), 0);
+
+  const ihdr = new Uint8Array(13);
+  new DataView(ihdr.buffer).setUint32(0, width);
+  new DataView(ihdr.buffer).setUint32(4, height);
+  ihdr.set([bitDepth, colorType, 0, 0, png.interlace ? 1 : 0], 8);
+
+  const chunks: PngChunk[] = [{ type: "IHDR", data: ihdr }];
+  if (png.palette) chunks.push({ type: "PLTE", data: png.palette });
+  if (png.trns) chunks.push({ type: "tRNS", data: png.trns });
+  chunks.push({ type: "IDAT", data: await zlibCompress(raw) }, { type: "IEND", data: new Uint8Array(0) });
+  return buildPng(chunks);
+};
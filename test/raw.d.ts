@@ -0,0 +1,11 @@
+// Text fixtures imported as strings by Vite's ?raw suffix
+declare module "*?raw" {
+  const content: string;
+  export default content;
+}
+
+// Binary fixtures as base64 data URLs, by Vite's ?inline suffix
+declare module "*?inline" {
+  const dataUrl: string;
+  export default dataUrl;
+}
@@ -0,0 +1,107 @@
+/**
+ * Offline stand-ins for github.com and the image hosts its og:images live
+ * on. Tests install one as the global fetch, point paths at fixture pages
+ * or statuses, and count what the worker asked for.
+ */
+
+import { vi } from "vitest";
+import { createImage } from "../src/image";
+import { encodePng } from "../src/png";
+import login from "./fixtures/github/login.html?raw";
+import org from "./fixtures/github/org.html?raw";
+import repo from "./fixtures/github/repo.html?raw";
+import user from "./fixtures/github/user.html?raw";
+
+export const PAGES = { user, org, repo, login };
+
+// What a fake page answers: fixture HTML, or a bare status such as 404 or 500
+export type FakePage = string | number;
+
+export interface FakeUpstream {
+  pages: Map<string, FakePage>; // github.com paths
+  images: Map<string, Uint8Array>; // full image URLs
+  requests: string[]; // every URL fetched, in order
+  count: (prefix: string) => number;
+}
+
+export const GITHUB = "https://github.com";
+
+// A solid 8x4 PNG, so transforms have something to pad
+export const createTestImage = (rgba: [number, number, number, number] = [200, 40, 40, 255]): Promise<Uint8Array> => {
+  const image = createImage(8, 4);
+  for (let i = 0; i < image.data.length; i += 4) image.data.set(rgba, i);
+  return encodePng(image);
+};
+
+export const installFakeUpstream = (): FakeUpstream => {
+  const upstream: FakeUpstream = {
+    pages: new Map(),
+    images: new Map(),
+    requests: [],
+    count: (prefix) => upstream.requests.filter((url) => url.startsWith(prefix)).length,
+  };
+
+  vi.stubGlobal("fetch", async (input: RequestInfo | URL): Promise<Response> => {
+    const url = input instanceof Request ? input.url : String(input);
+    upstream.requests.push(url);
+
+    const image = upstream.images.get(url);
+    if (image) return new Response(image, { headers: { "Content-Type": "image/png", ETag: '"fake"' } });
+
+    const page = url.startsWith(GITHUB) ? upstream.pages.get(new URL(url).pathname) : undefined;
+    if (typeof page === "string") return new Response(page, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+    return new Response("Not Found", { status: page ?? 404 });
+  });
+  return upstream;
+};
+
+export interface TestContext {
+  ctx: ExecutionContext;
+  settle: () => Promise<void>; // waits for everything passed to waitUntil
+}
+
+export const createTestContext = (): TestContext => {
+  const pending: Promise<unknown>[] = [];
+  const ctx = {
+    waitUntil: (promise: Promise<unknown>) => void pending.push(promise),
+    passThroughOnException: () => {},
+  } as unknown as ExecutionContext;
+  return {
+    ctx,
+    settle: async () => {
+      while (pending.length) await Promise.allSettled(pending.splice(0));
+    },
+  };
+};
+
+// Admin routes use the Workers-only constant-time compare, which Node lacks
+export const installTimingSafeEqual = (): void => {
+  if ("timingSafeEqual" in crypto.subtle) return;
+  const timingSafeEqual = (a: ArrayBuffer, b: ArrayBuffer): boolean => {
+    const [x, y] = [new Uint8Array(a), new Uint8Array(b)];
+    return x.length === y.length && x.every((v, i) => v === y[i]);
+  };
+  Object.defineProperty(crypto.subtle, "timingSafeEqual", { value: timingSafeEqual, configurable: true });
+};
+
+interface FakeObject {
+  body: Uint8Array;
+  httpMetadata: R2HTTPMetadata;
+  customMetadata: Record<string, string>;
+}
+
+// Just enough of an R2 bucket for the transform cache: get, put and delete by key
+export const createFakeBucket = (): { objects: Map<string, FakeObject>; bucket: R2Bucket } => {
+  const objects = new Map<string, FakeObject>();
+  const bucket = {
+    get: async (key: string) => {
+      const object = objects.get(key);
+      if (!object) return null;
+      return { ...object, body: new Response(object.body).body, arrayBuffer: async () => object.body.slice().buffer };
+    },
+    put: async (key: string, body: Uint8Array, options: Omit<FakeObject, "body">) =>
+      void objects.set(key, { body, httpMetadata: options.httpMetadata, customMetadata: options.customMetadata }),
+    delete: async (key: string) => void objects.delete(key),
+  };
+  return { objects, bucket: bucket as unknown as R2Bucket };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { createImage, type RawImage } from "../src/image";
+import { decodeWebp, encodeWebp } from "../src/webp";
+
+// Odd sizes leave partial predictor blocks and partly filled packed palette pixels
+const createTestImage = (width: number, height: number, pixel: (x: number, y: number) => number[]): RawImage => {
+  const image = createImage(width, height);
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) image.data.set(pixel(x, y), (y * width + x) * 4);
+  return image;
+};
+
+describe("lossless encoding", () => {
+  it.each([
+    ["one colour", createTestImage(9, 6, () => [13, 17, 23, 255])],
+    ["a 3-colour palette", createTestImage(37, 5, (x, y) => [[0, 0, 0, 255], [255, 0, 0, 128], [9, 9, 9, 0]][(x + y) % 3])],
+    ["a 200-colour palette", createTestImage(33, 21, (x, y) => [(x * 7) % 200, y, 40, 255])],
+    ["gradients with alpha", createTestImage(45, 19, (x, y) => [x * 5, y * 13, (x * y) & 0xff, (x + y * 3) & 0xff])],
+    ["repeated rows", createTestImage(70, 40, (x) => [x * 3, 255 - x, x & 0x0f, 255])],
+  ])("round-trips %s", (_, image) => {
+    const webp = encodeWebp(image);
+    expect(decodeWebp(webp)).toEqual(image);
+  });
+
+  it("moves to the extended format to carry an ICC profile", () => {
+    const image = createTestImage(3, 2, () => [1, 2, 3, 4]);
+    const webp = encodeWebp(image, new Uint8Array([1, 2, 3]));
+    expect(new TextDecoder().decode(webp.subarray(12, 16))).toBe("VP8X");
+    expect(webp[20]).toBe(0x30); // ICC and alpha flags
+    expect(decodeWebp(webp)).toEqual(image);
+  });
+});
@@ -0,0 +1,327 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Env } from "../src/env";
+import { decodePng } from "../src/png";
+import { decodeWebp } from "../src/webp";
+import {
+  GITHUB,
+  PAGES,
+  createFakeBucket,
+  createTestContext,
+  createTestImage,
+  installFakeUpstream,
+  installTimingSafeEqual,
+  type FakeUpstream,
+} from "./upstream";
+
+// Rate limits would otherwise carry over between tests through module state
+const env: Env = { RATE_LIMIT: "0", UPSTREAM_RATE_LIMIT: "0" };
+
+const USER_AVATAR = "https://avatars.githubusercontent.com/u/583231?v=4";
+const ORG_AVATAR = "https://avatars.githubusercontent.com/u/314135?s=280&v=4";
+const REPO_IMAGE = "https://repository-images.githubusercontent.com/1296269/hello-world";
+
+let upstream: FakeUpstream;
+let worker: typeof import("../src/index").default;
+let logs: string[];
+
+// Fresh modules per test, so isolate memory (caches, coalescers, rate limits, stats) starts empty
+beforeEach(async () => {
+  vi.resetModules();
+  logs = [];
+  vi.spyOn(console, "log").mockImplementation((line: string) => void logs.push(line));
+  upstream = installFakeUpstream();
+  upstream.pages.set("/octocat", PAGES.user);
+  upstream.pages.set("/cloudflare", PAGES.org);
+  upstream.pages.set("/octo-org/hello-world", PAGES.repo);
+  upstream.images.set(REPO_IMAGE, await createTestImage());
+  worker = (await import("../src/index")).default;
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const get = async (path: string, init?: RequestInit, testEnv = env): Promise<Response> => {
+  const { ctx, settle } = createTestContext();
+  const response = await worker.fetch(new Request(`https://ghlogo.test${path}`, init), testEnv, ctx);
+  await settle();
+  return response;
+};
+
+describe("redirects", () => {
+  it("redirects users, orgs and repos to their og:image", async () => {
+    expect((await get("/octocat")).headers.get("Location")).toBe(USER_AVATAR);
+    expect((await get("/cloudflare")).headers.get("Location")).toBe(ORG_AVATAR);
+
+    const response = await get("/Octo-Org/Hello-World");
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe(REPO_IMAGE);
+    expect(response.headers.get("Cache-Control")).toBe("public, max-age=3600");
+  });
+
+  // The org fixture has one in a script before the real tag, the repo fixture one in a comment
+  it("ignores og:image markup in comments and scripts", async () => {
+    expect((await get("/cloudflare")).headers.get("Location")).toBe(ORG_AVATAR);
+    expect((await get("/octo-org/hello-world")).headers.get("Location")).toBe(REPO_IMAGE);
+  });
+
+  it("serves repeat lookups from cache", async () => {
+    await get("/octocat");
+    await get("/OctoCat/");
+    expect(upstream.count(`${GITHUB}/octocat`)).toBe(1);
+  });
+
+  it("rejects invalid paths before asking GitHub", async () => {
+    const response = await get("/-bad-/repo");
+    expect(response.status).toBe(400);
+    expect(upstream.requests).toEqual([]);
+  });
+});
+
+describe("svg", () => {
+  it("renders badges for a .svg suffix or ?format=svg", async () => {
+    for (const path of ["/octo-org/hello-world.svg", "/octo-org/hello-world?format=svg"]) {
+      const response = await get(path);
+      expect(response.status).toBe(200);
+      expect(response.headers.get("Content-Type")).toContain("image/svg+xml");
+      expect(await response.text()).toContain("Octo-Org/Hello-World");
+    }
+  });
+
+  it("doesn't look up the literal .svg name for repos that exist", async () => {
+    await get("/octo-org/hello-world.svg");
+    expect(upstream.count(`${GITHUB}/octo-org/hello-world.svg`)).toBe(0);
+  });
+
+  // GitHub allows dots in repo names, so the suffix can be part of a real repo
+  it("serves repos whose names end in .svg", async () => {
+    upstream.pages.set("/octo-org/icons.svg", PAGES.repo);
+    expect((await get("/octo-org/icons.svg")).headers.get("Location")).toBe(REPO_IMAGE);
+    expect((await get("/octo-org/icons.svg?format=svg")).headers.get("Content-Type")).toContain("image/svg+xml");
+  });
+});
+
+describe("misses and errors", () => {
+  it("returns and caches a 404 for missing repos", async () => {
+    const response = await get("/octocat/missing");
+    expect(response.status).toBe(404);
+    expect(response.headers.get("Cache-Control")).toBe("public, max-age=300");
+
+    await get("/octocat/missing");
+    expect(upstream.count(`${GITHUB}/octocat/missing`)).toBe(1);
+  });
+
+  it("treats a page without og:image as a GitHub error, not a miss", async () => {
+    upstream.pages.set("/octocat/walled", PAGES.login);
+    const response = await get("/octocat/walled");
+    expect(response.status).toBe(502);
+    expect(response.headers.get("Cache-Control")).toBe("no-store");
+
+    // Errors aren't cached, so the next request asks again
+    await get("/octocat/walled");
+    expect(upstream.count(`${GITHUB}/octocat/walled`)).toBe(2);
+  });
+
+  it("returns a 502 when GitHub fails", async () => {
+    upstream.pages.set("/octocat/broken", 500);
+    expect((await get("/octocat/broken")).status).toBe(502);
+  });
+
+  it("serves a fallback for missing repos", async () => {
+    upstream.images.set(USER_AVATAR, await createTestImage());
+    const response = await get("/octocat/missing?fallback=avatar");
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe(USER_AVATAR);
+  });
+
+  // Embeds in GitHub READMEs all come through a few camo IPs, so only an explicit RATE_LIMIT limits clients
+  it("limits clients only when RATE_LIMIT is set", async () => {
+    const headers = { "CF-Connecting-IP": "192.0.2.1" };
+    for (let i = 0; i < 200; i++) expect((await get("/octocat", { headers }, {})).status).toBe(302);
+
+    const limited: Env = { ...env, RATE_LIMIT: "2" };
+    await get("/octocat", { headers }, limited);
+    await get("/octocat", { headers }, limited);
+    const response = await get("/octocat", { headers }, limited);
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("30");
+  });
+});
+
+describe("formats", () => {
+  it("reports page metadata as JSON", async () => {
+    const response = await get("/octo-org/hello-world?format=json");
+    const body = await response.json<Record<string, unknown>>();
+    expect(body).toMatchObject({
+      host: "github",
+      path: "/octo-org/hello-world",
+      ogImage: REPO_IMAGE,
+      kind: "custom",
+      title: "GitHub - Octo-Org/Hello-World: My first repository on GitHub!",
+      stars: 2890,
+      contentType: "image/png",
+      width: 8,
+      height: 4,
+    });
+    expect(body.description).toContain(`— it's "simple".`);
+  });
+
+  // Plain lookups stop at </head>; the star counter is further down
+  it("reads GitHub star counts only when a response shows them", async () => {
+    await get("/octo-org/hello-world");
+    expect(upstream.count(`${GITHUB}/octo-org/hello-world`)).toBe(1);
+    expect(await (await get("/octo-org/hello-world?format=json")).json()).toMatchObject({ stars: 2890 });
+    expect(upstream.count(`${GITHUB}/octo-org/hello-world`)).toBe(2);
+
+    // Now cached with the count
+    expect(await (await get("/octo-org/hello-world?format=svg&style=card")).text()).toContain("2.9k");
+    expect(upstream.count(`${GITHUB}/octo-org/hello-world`)).toBe(2);
+  });
+
+  it("pads images from the image host to the requested ratio", async () => {
+    const response = await get("/octo-org/hello-world?ratio=1:1&bg=00ff00");
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    const image = await decodePng(new Uint8Array(await response.arrayBuffer()));
+    expect(image).toMatchObject({ width: 8, height: 8 });
+    expect([...image!.data.subarray(0, 4)]).toEqual([0, 255, 0, 255]);
+    expect([...image!.data.subarray(8 * 2 * 4, 8 * 2 * 4 + 4)]).toEqual([200, 40, 40, 255]);
+
+    // The ETag answers conditional requests without another transform
+    const etag = response.headers.get("ETag")!;
+    const notModified = await get("/octo-org/hello-world?ratio=1:1&bg=00ff00", { headers: { "If-None-Match": etag } });
+    expect(notModified.status).toBe(304);
+  });
+
+  it("serves WebP to clients that accept it, varying on Accept", async () => {
+    const accept = { headers: { Accept: "image/avif,image/webp,image/png,*/*;q=0.8" } };
+    const webp = await get("/octo-org/hello-world?ratio=1:1", accept);
+    expect(webp.headers.get("Content-Type")).toBe("image/webp");
+    expect(webp.headers.get("Vary")).toBe("Accept");
+    expect(decodeWebp(new Uint8Array(await webp.arrayBuffer()))).toMatchObject({ width: 8, height: 8 });
+
+    const png = await get("/octo-org/hello-world?ratio=1:1", { headers: { Accept: "image/webp;q=0, */*" } });
+    expect(png.headers.get("Content-Type")).toBe("image/png");
+    expect(png.headers.get("ETag")).not.toBe(webp.headers.get("ETag"));
+
+    // Generated fallbacks are negotiated the same way
+    const fallback = await get("/octocat/missing?fallback=identicon&w=16", accept);
+    expect(fallback.headers.get("Content-Type")).toBe("image/webp");
+    expect(fallback.headers.get("Vary")).toBe("Accept");
+  });
+
+  it("lets ?format= pick the encoding regardless of Accept", async () => {
+    const response = await get("/octo-org/hello-world?ratio=1:1&format=png", { headers: { Accept: "image/webp" } });
+    expect(response.headers.get("Content-Type")).toBe("image/png");
+    expect(response.headers.get("Vary")).toBeNull();
+    expect((await get("/octo-org/hello-world?ratio=1:1&format=webp")).headers.get("Content-Type")).toBe("image/webp");
+    expect((await get("/octo-org/hello-world?format=avif")).status).toBe(400);
+  });
+
+  it("streams allowed images with ?proxy=1", async () => {
+    const response = await get("/octo-org/hello-world?proxy=1");
+    expect(response.status).toBe(200);
+    expect(response.headers.get("ETag")).toBe('"fake"');
+    expect(response.headers.get("Content-Security-Policy")).toBe("default-src 'none'; sandbox");
+    expect(response.headers.get("X-Content-Type-Options")).toBe("nosniff");
+    expect(new Uint8Array(await response.arrayBuffer())).toEqual(upstream.images.get(REPO_IMAGE));
+  });
+});
+
+describe("GitHub API", () => {
+  const apiEnv: Env = { ...env, GITHUB_TOKEN: "token" };
+
+  // Answers GraphQL repository queries; everything else still goes to the fake github.com
+  const installApi = (usesCustomOpenGraphImage: boolean): void => {
+    const scrape = globalThis.fetch;
+    vi.stubGlobal("fetch", async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+      if (String(input) !== "https://api.github.com/graphql") return scrape(input, init);
+      const { variables } = JSON.parse(String(init?.body)) as { variables: Record<string, string> };
+      if (variables.login) return Response.json({ data: { repositoryOwner: { login: "octo-org", avatarUrl: ORG_AVATAR } } });
+      const repository = {
+        nameWithOwner: "octo-org/hello-world",
+        description: null,
+        stargazerCount: 1,
+        openGraphImageUrl: REPO_IMAGE,
+        usesCustomOpenGraphImage,
+        owner: { avatarUrl: ORG_AVATAR },
+      };
+      return Response.json({ data: { repository } });
+    });
+  };
+
+  it("classifies the og:image by usesCustomOpenGraphImage instead of its host", async () => {
+    installApi(false);
+    expect(await (await get("/octo-org/hello-world?format=json", undefined, apiEnv)).json()).toMatchObject({
+      ogImage: REPO_IMAGE,
+      kind: "generated",
+    });
+    const response = await get("/octo-org/hello-world?prefer=custom", undefined, apiEnv);
+    expect(response.headers.get("Location")).toBe(ORG_AVATAR);
+  });
+
+  it("reports uploaded images as custom", async () => {
+    installApi(true);
+    expect(await (await get("/octo-org/hello-world?format=json", undefined, apiEnv)).json()).toMatchObject({ kind: "custom" });
+  });
+});
+
+describe("metrics", () => {
+  it("logs one JSON line per request", async () => {
+    await get("/Octo-Org/Hello-World?ratio=1:1");
+    await get("/octo-org/hello-world");
+    expect(logs.map((line) => JSON.parse(line))).toMatchObject([
+      { path: "/Octo-Org/Hello-World", host: "github", status: 200, lookup: "found", cache: "miss", transform: "1:1 edge 255,255,255,255 center - -" },
+      { path: "/octo-org/hello-world", status: 302, lookup: "found", cache: "fresh", layer: "memory", transform: null },
+    ]);
+  });
+
+  it("reports isolate stats at /stats with the admin token", async () => {
+    installTimingSafeEqual();
+    const adminEnv: Env = { ...env, ADMIN_TOKEN: "secret" };
+    await get("/octocat", undefined, adminEnv);
+    await get("/octocat", undefined, adminEnv);
+    await get("/octocat/missing", undefined, adminEnv);
+
+    // Without credentials it's the "stats" account
+    expect((await get("/stats", undefined, adminEnv)).status).toBe(404);
+    expect((await get("/stats", { headers: { Authorization: "Bearer wrong" } }, adminEnv)).status).toBe(401);
+
+    const response = await get("/stats", { headers: { Authorization: "Bearer secret" } }, adminEnv);
+    expect(await response.json()).toMatchObject({
+      lookups: { found: 2, missing: 2 },
+      cache: { fresh: 1, miss: 3 },
+      upstream: { found: 1, missing: 2 },
+      hitRate: 0.25,
+      topPaths: [{ path: "/octocat", requests: 2 }, { path: "/octocat/missing", requests: 1 }, { path: "/stats", requests: 1 }],
+      memoryCache: { entries: 3, max: 10_000 },
+    });
+  });
+});
+
+describe("admin", () => {
+  const adminEnv: Env = { ...env, ADMIN_TOKEN: "secret" };
+  const admin = (route: string, body: unknown, testEnv: Env) =>
+    get(route, { method: "POST", headers: { Authorization: "Bearer secret" }, body: JSON.stringify(body) }, testEnv);
+
+  beforeEach(() => installTimingSafeEqual());
+
+  it("renders transformed images again after a purge or warm", async () => {
+    const bucketEnv: Env = { ...adminEnv, IMAGE_CACHE: createFakeBucket().bucket };
+    await get("/octo-org/hello-world?ratio=1:1", undefined, bucketEnv);
+    await get("/octo-org/hello-world?ratio=1:1", undefined, bucketEnv);
+    expect(upstream.count(REPO_IMAGE)).toBe(1);
+
+    expect(await (await admin("/admin/purge", { paths: ["octo-org/hello-world"] }, bucketEnv)).json()).toEqual({
+      host: "github",
+      purged: ["/octo-org/hello-world"],
+      notCached: [],
+    });
+    await get("/octo-org/hello-world?ratio=1:1", undefined, bucketEnv);
+    expect(upstream.count(REPO_IMAGE)).toBe(2);
+
+    await admin("/admin/warm", ["octo-org/hello-world"], bucketEnv);
+    await get("/octo-org/hello-world?ratio=1:1", undefined, bucketEnv);
+    expect(upstream.count(REPO_IMAGE)).toBe(3);
+  });
+});